@@ -1,4 +1,4 @@
-import { useMemo, useState } from 'react'
+import { useEffect, useEffectEvent, useMemo, useRef, useState } from 'react'
 import Papa from 'papaparse'
 import type { ParseResult } from 'papaparse'
 import {
@@ -7,11 +7,16 @@ import {
   Bar,
   BarChart,
   CartesianGrid,
+  Legend,
+  Line,
+  LineChart,
   PolarAngleAxis,
   PolarGrid,
   Radar,
   RadarChart,
   ResponsiveContainer,
+  Scatter,
+  ScatterChart,
   Tooltip,
   XAxis,
   YAxis,
@@ -22,93 +27,470 @@ import {
   calculateNetRating,
   calculateScenarioSensitivity,
   calculateTeamMomentum,
-  detectGameAnomalies,
-  evaluateLineupChemistry,
-  generateRecommendations,
-  optimizeLineupWithConstraints,
-  projectWinProbability,
+  DEFAULT_MODEL_COEFFICIENTS,
+  DEFAULT_SIMULATION_SEED,
+  gameLogColumns,
+  generateSimulationSeed,
+  mergeGameLogs,
   rankTeamsByContenderScore,
-  runMonteCarloSimulation,
+  readTeamFourFactors,
+  rosterCsvColumns,
+  SENSITIVITY_STEP,
+  teamFourFactorColumns,
+  validateGameLogRows,
+  validateRosterRows,
 } from './lib/analytics'
-import type { TeamCsvRow } from './types'
+import { detectGameAnomalies, OUTLIER_THRESHOLD, ROLLING_WINDOW } from './lib/anomalies'
+import { AVAILABILITY_PROBABILITY, AVAILABILITY_STATUSES, availabilityStatus } from './lib/availability'
+import type { BacktestInput } from './lib/backtest'
+import { parseCsvRows } from './lib/csv'
+import { SIZE_MISMATCH, SPEED_MISMATCH, buildMatchupReport } from './lib/matchups'
+import { buildFourFactorsReport, FOUR_FACTOR_LABELS, FOUR_FACTOR_SOURCE_LABELS } from './lib/fourFactors'
+import { fitModelCoefficients, MIN_FIT_GAMES, RIDGE_STRENGTH } from './lib/modelFit'
+import { OPTIMIZED_CANDIDATE_ID } from './lib/optimizer'
+import { comparePlans, exportPlan, normalizePlanSnapshot, planConstraints } from './lib/plans'
+import {
+  buildRuleContext,
+  DEFAULT_RECOMMENDATION_RULES,
+  generateRecommendations,
+  RULE_COMPARATORS,
+  RULE_METRIC_LABELS,
+  RULE_METRICS,
+} from './lib/recommendations'
+import { QUARTER_MINUTES, SEGMENT_MINUTES, type RotationInput } from './lib/rotation'
+import {
+  BREAK_EVEN_REACH,
+  SCENARIO_FACTOR_LABELS,
+  SCENARIO_FACTORS,
+  calculateTornado,
+  sweepScenarioGrid,
+  type SweepContext,
+} from './lib/sensitivity'
+import {
+  decodeSessionHash,
+  encodeSessionHash,
+  parseSessionConfig,
+  resolveSessionPlayers,
+  SESSION_CONFIG_VERSION,
+  serializeSessionConfig,
+  sessionOpponentRow,
+  SETTING_LIMITS,
+} from './lib/session'
+import { clearStoredValue, loadStoredValue, saveStoredValue } from './lib/storage'
+import type { SeriesInput } from './lib/series'
+import { paretoFrontier, type TournamentInput } from './lib/tournament'
+import { useBacktest } from './hooks/useBacktest'
+import { useRotationPlan } from './hooks/useRotationPlan'
+import { useSeriesSimulation } from './hooks/useSeriesSimulation'
+import { useStrategyTournament } from './hooks/useStrategyTournament'
+import type {
+  AvailabilityStatus,
+  BoxScoreTotals,
+  CsvRowError,
+  FlexSlot,
+  Formation,
+  GameLogImport,
+  GameSample,
+  LineupConstraints,
+  ModelCoefficients,
+  PlanExportFormat,
+  PlanSnapshot,
+  Player,
+  PlanSettings,
+  PriorityMode,
+  RecommendationRule,
+  RuleComparator,
+  RuleCondition,
+  RuleMetric,
+  RuleScope,
+  ScenarioFactor,
+  SessionConfig,
+  SessionImport,
+  ScenarioInputs,
+  ScoreWeights,
+  SimulationMode,
+  StrategyArchetype,
+  StrategyCandidate,
+  TeamCsvRow,
+  ViewMode,
+} from './types'
 import './App.css'
 
-const formationMap = {
-  balanced: { guards: 2, forwards: 2, centers: 1, label: 'Balanced' },
-  guardHeavy: { guards: 3, forwards: 1, centers: 1, label: 'Guard Heavy' },
-  wingHeavy: { guards: 1, forwards: 3, centers: 1, label: 'Wing Heavy' },
-} as const
+const builtInFormations: Formation[] = [
+  { id: 'balanced', label: 'Balanced', guards: 2, forwards: 2, centers: 1, flexSlots: {}, builtIn: true },
+  { id: 'guardHeavy', label: 'Guard Heavy', guards: 3, forwards: 1, centers: 1, flexSlots: {}, builtIn: true },
+  { id: 'wingHeavy', label: 'Wing Heavy', guards: 1, forwards: 3, centers: 1, flexSlots: {}, builtIn: true },
+]
+
+const FORMATION_STORAGE_KEY = 'customFormations'
+const LINEUP_SLOTS = 5
 
-const strategyArchetypes = [
-  { id: 'aggressive', label: 'Aggressive Tempo', pace: 6, shooting: 4, turnover: 3, risk: 0.72 },
-  { id: 'balanced', label: 'Balanced Control', pace: 2, shooting: 2, turnover: 0, risk: 0.45 },
-  { id: 'defensive', label: 'Defensive Grind', pace: -3, shooting: 1, turnover: -2, risk: 0.31 },
+const formationSlotFields = [
+  ['guards', 'G'],
+  ['forwards', 'F'],
+  ['centers', 'C'],
 ] as const
 
-type FormationKey = keyof typeof formationMap
-type PriorityMode = 'upside' | 'balanced' | 'stability'
-type ViewMode = 'setup' | 'strategy' | 'results'
-
-type PlanSnapshot = {
-  id: string
-  label: string
-  score: number
-  winProbability: number
-  monteWinRate: number
-  expectedMargin: number
-  riskIndex: number
-  paceDelta: number
-  shootingDelta: number
-  turnoverDelta: number
-  lineup: { id: string; name: string; position: string; salary: number }[]
-  recommendations: { title: string; detail: string; impact: number }[]
-  lockedAt: string
+const flexSlotKeys: FlexSlot[] = ['G/F', 'F/C', 'UTIL']
+
+type FormationDraft = Omit<Formation, 'id' | 'builtIn'>
+
+const formationSlotCount = (formation: FormationDraft) =>
+  formation.guards +
+  formation.forwards +
+  formation.centers +
+  flexSlotKeys.reduce((sum, slot) => sum + (formation.flexSlots[slot] ?? 0), 0)
+
+const describeFormation = (formation: FormationDraft) =>
+  [
+    ...formationSlotFields.map(([field, label]) => `${formation[field]}${label}`),
+    ...flexSlotKeys.filter((slot) => (formation.flexSlots[slot] ?? 0) > 0).map((slot) => `${formation.flexSlots[slot]} ${slot}`),
+  ].join(' · ')
+
+const strategyArchetypes: StrategyArchetype[] = [
+  {
+    id: 'aggressive',
+    label: 'Aggressive Tempo',
+    pace: 6,
+    shooting: 4,
+    turnover: 3,
+    risk: 0.72,
+    notes: 'Push pace and shot volume, accept more live-ball turnovers.',
+    builtIn: true,
+  },
+  {
+    id: 'balanced',
+    label: 'Balanced Control',
+    pace: 2,
+    shooting: 2,
+    turnover: 0,
+    risk: 0.45,
+    notes: 'Modest tempo bump with steady half-court execution.',
+    builtIn: true,
+  },
+  {
+    id: 'defensive',
+    label: 'Defensive Grind',
+    pace: -3,
+    shooting: 1,
+    turnover: -2,
+    risk: 0.31,
+    notes: 'Slow the game down and protect the ball.',
+    builtIn: true,
+  },
+]
+
+const ARCHETYPE_STORAGE_KEY = 'customArchetypes'
+
+type ArchetypeDraft = Omit<StrategyArchetype, 'id' | 'builtIn'> & { id: string | null }
+
+const RULE_STORAGE_KEY = 'recommendationRules'
+const DISABLED_RULES_STORAGE_KEY = 'disabledRuleIds'
+
+type RuleDraft = Omit<RecommendationRule, 'id' | 'builtIn' | 'enabled'> & { id: string | null }
+
+const ruleScopeLabels: Record<RuleScope, string> = {
+  game: 'Every plan',
+  mismatch: 'Each flagged mismatch',
+  fallback: 'When nothing else fires',
+}
+
+const emptyRuleDraft: RuleDraft = {
+  id: null,
+  name: '',
+  scope: 'game',
+  mismatchKind: 'any',
+  mismatchFavors: 'any',
+  conditions: [{ metric: 'paceDelta', comparator: '>', value: 0 }],
+  title: '',
+  detail: '',
+  impact: { metric: null, scale: 0, base: 3 },
+}
+
+const ruleToDraft = (rule: RecommendationRule, id: string | null): RuleDraft => ({
+  id,
+  name: rule.name,
+  scope: rule.scope,
+  mismatchKind: rule.mismatchKind,
+  mismatchFavors: rule.mismatchFavors,
+  conditions: rule.conditions.map((condition) => ({ ...condition })),
+  title: rule.title,
+  detail: rule.detail,
+  impact: { ...rule.impact },
+})
+
+const describeRule = (rule: RecommendationRule) =>
+  [
+    ruleScopeLabels[rule.scope],
+    rule.scope === 'mismatch' && `${rule.mismatchKind} favoring ${rule.mismatchFavors}`,
+    ...rule.conditions.map((condition) => `${RULE_METRIC_LABELS[condition.metric]} ${condition.comparator} ${condition.value}`),
+  ]
+    .filter(Boolean)
+    .join(' · ')
+
+const createArchetypeId = () => `custom-${Date.now().toString(36)}`
+const createRuleId = () => `rule-${Date.now().toString(36)}`
+const createFormationId = () => `formation-${Date.now().toString(36)}`
+
+const neutralScenario: ScenarioInputs = { paceDelta: 0, shootingDelta: 0, turnoverDelta: 0 }
+
+const GAME_LOG_STORAGE_KEY = 'gameLog'
+const PLAN_HISTORY_STORAGE_KEY = 'planHistory'
+const PLAN_HISTORY_LIMIT = 50
+const MODEL_VERSIONS_STORAGE_KEY = 'modelVersions'
+const BACKTEST_RUNS = 2000
+
+const availabilityLabels: Record<AvailabilityStatus, string> = {
+  available: 'Available',
+  probable: `Probable (${AVAILABILITY_PROBABILITY.probable * 100}%)`,
+  questionable: `Questionable (${AVAILABILITY_PROBABILITY.questionable * 100}%)`,
+  doubtful: `Doubtful (${AVAILABILITY_PROBABILITY.doubtful * 100}%)`,
+  out: 'Out',
 }
 
+const formatGameClock = (minute: number) =>
+  `Q${Math.floor(minute / QUARTER_MINUTES) + 1} ${QUARTER_MINUTES - (minute % QUARTER_MINUTES)}:00`
+
+const downloadFile = (filename: string, mimeType: string, content: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }))
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+const downloadPlanExport = (plan: PlanSnapshot, format: PlanExportFormat) => {
+  const { filename, mimeType, content } = exportPlan(plan, format)
+  downloadFile(filename, mimeType, content)
+}
+
+const printPlan = (plan: PlanSnapshot) => {
+  const printWindow = window.open('', '_blank')
+  if (!printWindow) {
+    return false
+  }
+
+  printWindow.document.write(exportPlan(plan, 'html').content)
+  printWindow.document.close()
+  printWindow.focus()
+  printWindow.print()
+  return true
+}
+
+const createSnapshotId = () => `plan-${Date.now().toString(36)}`
+
+const defaultSessionConfig: SessionConfig = {
+  version: SESSION_CONFIG_VERSION,
+  viewMode: 'setup',
+  settings: {
+    opponent: 'league-average',
+    formationId: 'balanced',
+    priorityMode: 'balanced',
+    strategyIntensity: 6,
+    budget: 36000,
+    minimumMinutes: 22,
+    simulationRuns: 2500,
+    simulationSeed: DEFAULT_SIMULATION_SEED,
+    simulationMode: 'margin',
+    injuredPlayerIds: [],
+    playProbabilities: {},
+    lockedPlayerIds: [],
+    togetherPairs: [],
+    apartPairs: [],
+    positionSalaryCaps: {},
+    modelVersionId: DEFAULT_MODEL_COEFFICIENTS.id,
+  },
+  opponentProfile: null,
+  formation: builtInFormations[0],
+  customArchetypes: [],
+  modelCoefficients: DEFAULT_MODEL_COEFFICIENTS,
+}
+
+const initialSessionImport = decodeSessionHash(window.location.hash, defaultSessionConfig)
+const initialPlayerResolution = initialSessionImport?.config
+  ? resolveSessionPlayers(initialSessionImport.config.settings, players)
+  : { settings: defaultSessionConfig.settings, missingPlayerIds: [] }
+const initialSession = initialSessionImport?.config
+  ? { ...initialSessionImport.config, settings: initialPlayerResolution.settings }
+  : defaultSessionConfig
+
+/** Shared definitions replace local ones with the same id so the link reproduces the sender's numbers. */
+const mergeById = <T extends { id: string }>(local: T[], incoming: T[]) => [
+  ...local.filter((entry) => !incoming.some((item) => item.id === entry.id)),
+  ...incoming,
+]
+
+const describeSessionImport = ({ errors, migratedFrom }: SessionImport, missingPlayerIds: string[]) =>
+  [
+    'Loaded shared session.',
+    migratedFrom !== null && `Upgraded from version ${migratedFrom}.`,
+    errors.length > 0 && `${errors.length} field(s) were adjusted: ${errors.join(' ')}`,
+    missingPlayerIds.length > 0 &&
+      `Player rules for ${missingPlayerIds.join(', ')} were dropped because those players are not on the current roster.`,
+  ]
+    .filter(Boolean)
+    .join(' ')
+
 function App() {
-  const [viewMode, setViewMode] = useState<ViewMode>('setup')
-  const [formation, setFormation] = useState<FormationKey>('balanced')
-  const [priorityMode, setPriorityMode] = useState<PriorityMode>('balanced')
-  const [strategyIntensity, setStrategyIntensity] = useState(6)
-  const [budget, setBudget] = useState(36000)
-  const [minimumMinutes, setMinimumMinutes] = useState(22)
-  const [simulationRuns, setSimulationRuns] = useState(2500)
-  const [injuredPlayerIds, setInjuredPlayerIds] = useState<string[]>([])
-  const [selectedOpponent, setSelectedOpponent] = useState('league-average')
-  const [uploadedTeams, setUploadedTeams] = useState<TeamCsvRow[]>([])
+  const [viewMode, setViewMode] = useState<ViewMode>(initialSession.viewMode)
+  const [formation, setFormation] = useState(initialSession.settings.formationId)
+  const [customFormations, setCustomFormations] = useState<Formation[]>(() =>
+    mergeById(
+      loadStoredValue<Formation[]>(FORMATION_STORAGE_KEY, []),
+      initialSession.formation.builtIn ? [] : [initialSession.formation],
+    ),
+  )
+  const [formationDraft, setFormationDraft] = useState<FormationDraft | null>(null)
+  const [priorityMode, setPriorityMode] = useState<PriorityMode>(initialSession.settings.priorityMode)
+  const [strategyIntensity, setStrategyIntensity] = useState(initialSession.settings.strategyIntensity)
+  const [budget, setBudget] = useState(initialSession.settings.budget)
+  const [minimumMinutes, setMinimumMinutes] = useState(initialSession.settings.minimumMinutes)
+  const [simulationRuns, setSimulationRuns] = useState(initialSession.settings.simulationRuns)
+  const [simulationSeed, setSimulationSeed] = useState(initialSession.settings.simulationSeed)
+  const [simulationMode, setSimulationMode] = useState<SimulationMode>(initialSession.settings.simulationMode)
+  const [injuredPlayerIds, setInjuredPlayerIds] = useState<string[]>(initialSession.settings.injuredPlayerIds)
+  const [playProbabilities, setPlayProbabilities] = useState<Record<string, number>>(
+    initialSession.settings.playProbabilities,
+  )
+  const [lockedPlayerIds, setLockedPlayerIds] = useState<string[]>(initialSession.settings.lockedPlayerIds)
+  const [togetherPairs, setTogetherPairs] = useState<[string, string][]>(initialSession.settings.togetherPairs)
+  const [apartPairs, setApartPairs] = useState<[string, string][]>(initialSession.settings.apartPairs)
+  const [pairDraft, setPairDraft] = useState<[string, string]>([players[0].id, players[1].id])
+  const [customArchetypes, setCustomArchetypes] = useState<StrategyArchetype[]>(() =>
+    mergeById(loadStoredValue<StrategyArchetype[]>(ARCHETYPE_STORAGE_KEY, []), initialSession.customArchetypes),
+  )
+  const [archetypeDraft, setArchetypeDraft] = useState<ArchetypeDraft | null>(null)
+  const [customRules, setCustomRules] = useState<RecommendationRule[]>(() =>
+    loadStoredValue<RecommendationRule[]>(RULE_STORAGE_KEY, []),
+  )
+  const [disabledRuleIds, setDisabledRuleIds] = useState<string[]>(() =>
+    loadStoredValue<string[]>(DISABLED_RULES_STORAGE_KEY, []),
+  )
+  const [ruleDraft, setRuleDraft] = useState<RuleDraft | null>(null)
+  const [positionSalaryCaps, setPositionSalaryCaps] = useState<LineupConstraints['positionSalaryCaps']>(
+    initialSession.settings.positionSalaryCaps,
+  )
+  const [selectedOpponent, setSelectedOpponent] = useState(
+    initialSession.opponentProfile?.name === initialSession.settings.opponent ? initialSession.settings.opponent : 'league-average',
+  )
+  const [uploadedTeams, setUploadedTeams] = useState<TeamCsvRow[]>(
+    initialSession.opponentProfile ? [initialSession.opponentProfile] : [],
+  )
   const [uploadError, setUploadError] = useState('')
+  const [games, setGames] = useState<GameSample[]>(() => loadStoredValue(GAME_LOG_STORAGE_KEY, gameLog))
+  // The last committed log, for import summaries that resolve after a newer upload re-rendered.
+  const committedGames = useRef(games)
+  const [gameLogErrors, setGameLogErrors] = useState<CsvRowError[]>([])
+  const [gameLogMessage, setGameLogMessage] = useState('')
+  const [gameLogUploadError, setGameLogUploadError] = useState('')
+  const [roster, setRoster] = useState<Player[]>(players)
+  const [rosterErrors, setRosterErrors] = useState<CsvRowError[]>([])
+  const [rosterUploadError, setRosterUploadError] = useState('')
+  const [opponentRoster, setOpponentRoster] = useState<Player[]>([])
+  const [opponentRosterErrors, setOpponentRosterErrors] = useState<CsvRowError[]>([])
+  const [opponentRosterUploadError, setOpponentRosterUploadError] = useState('')
   const [selectedPlayerId, setSelectedPlayerId] = useState(players[0].id)
   const [selectedCandidateId, setSelectedCandidateId] = useState<string | null>(null)
-  const [lockedPlan, setLockedPlan] = useState<PlanSnapshot | null>(null)
+  const [planHistory, setPlanHistory] = useState<PlanSnapshot[]>(() =>
+    loadStoredValue<PlanSnapshot[]>(PLAN_HISTORY_STORAGE_KEY, []).map(normalizePlanSnapshot),
+  )
+  const [lockedPlanId, setLockedPlanId] = useState<string | null>(() => planHistory[0]?.snapshotId ?? null)
+  const [comparePlanIds, setComparePlanIds] = useState<[string, string] | null>(null)
+  const [restoreNotice, setRestoreNotice] = useState(() =>
+    initialSessionImport
+      ? initialSessionImport.config
+        ? describeSessionImport(initialSessionImport, initialPlayerResolution.missingPlayerIds)
+        : initialSessionImport.errors.join(' ')
+      : '',
+  )
+  const [exportError, setExportError] = useState('')
+  const [seriesHomeCourt, setSeriesHomeCourt] = useState(true)
+  const [injuryRecurrence, setInjuryRecurrence] = useState(0)
+  const [modelVersions, setModelVersions] = useState<ModelCoefficients[]>(() =>
+    mergeById(
+      loadStoredValue<ModelCoefficients[]>(MODEL_VERSIONS_STORAGE_KEY, []),
+      initialSession.modelCoefficients.id === DEFAULT_MODEL_COEFFICIENTS.id ? [] : [initialSession.modelCoefficients],
+    ),
+  )
+  const [modelVersionId, setModelVersionId] = useState(initialSession.settings.modelVersionId)
+  const [modelFitMessage, setModelFitMessage] = useState('')
+  const [sweepRange, setSweepRange] = useState(2)
+  const [sweepAxes, setSweepAxes] = useState<[ScenarioFactor, ScenarioFactor]>(['paceDelta', 'shootingDelta'])
+
+  // Unknown ids (a deleted fit, or a link whose fit was not shared) fall back to the defaults.
+  const activeCoefficients = modelVersions.find((version) => version.id === modelVersionId) ?? DEFAULT_MODEL_COEFFICIENTS
+
+  const lockedPlan = planHistory.find((plan) => plan.snapshotId === lockedPlanId) ?? null
 
   const netRating = useMemo(() => calculateNetRating(teamProfile), [])
-  const momentum = useMemo(() => calculateTeamMomentum(gameLog), [])
-  const anomalyFeed = useMemo(() => detectGameAnomalies(gameLog), [])
+  const momentum = useMemo(() => calculateTeamMomentum(games), [games])
+  // The walk-forward replay refits and simulates once per game, so it runs in a worker.
+  const backtestInput = useMemo<BacktestInput>(
+    () => ({
+      team: teamProfile,
+      games,
+      opponents: uploadedTeams,
+      iterations: Math.min(BACKTEST_RUNS, simulationRuns),
+      seed: simulationSeed,
+      coefficients: activeCoefficients,
+    }),
+    [activeCoefficients, games, simulationRuns, simulationSeed, uploadedTeams],
+  )
+  const { report: backtest, isRunning: isBacktesting, error: backtestError } = useBacktest(backtestInput)
 
-  const contenderBoard = useMemo(() => rankTeamsByContenderScore(uploadedTeams).slice(0, 8), [uploadedTeams])
+  const anomalyFeed = useMemo(
+    () => detectGameAnomalies(games, uploadedTeams).filter((item) => item.label !== 'Normal'),
+    [games, uploadedTeams],
+  )
 
-  const opponentNetRating = useMemo(() => {
-    if (selectedOpponent === 'league-average') {
-      return 0
-    }
+  const rankedTeams = useMemo(() => rankTeamsByContenderScore(uploadedTeams), [uploadedTeams])
+
+  // Shared sessions and restored plans can target a team outside the top eight, so the lookup covers every upload.
+  const opponentProfile = useMemo(
+    () => rankedTeams.find((entry) => entry.name === selectedOpponent) ?? null,
+    [rankedTeams, selectedOpponent],
+  )
 
-    const team = contenderBoard.find((entry) => entry.name === selectedOpponent)
-    return team?.net ?? 0
-  }, [contenderBoard, selectedOpponent])
+  const contenderBoard = useMemo(() => {
+    const top = rankedTeams.slice(0, 8)
+    return opponentProfile && !top.includes(opponentProfile) ? [...top, opponentProfile] : top
+  }, [opponentProfile, rankedTeams])
 
-  const activeFormation = formationMap[formation]
-  const constraints = useMemo(
+  const opponentNetRating = opponentProfile?.net ?? 0
+
+  const fourFactors = useMemo(() => buildFourFactorsReport(teamProfile, games, opponentProfile), [games, opponentProfile])
+
+  const formations = useMemo(() => [...builtInFormations, ...customFormations], [customFormations])
+  const activeFormation = formations.find((entry) => entry.id === formation) ?? builtInFormations[0]
+  const constraints = useMemo<LineupConstraints>(
     () => ({
       guards: activeFormation.guards,
       forwards: activeFormation.forwards,
       centers: activeFormation.centers,
+      flexSlots: activeFormation.flexSlots,
       minMinutes: minimumMinutes,
       excludedPlayerIds: injuredPlayerIds,
+      lockedPlayerIds,
+      togetherPairs,
+      apartPairs,
+      positionSalaryCaps,
     }),
-    [activeFormation.centers, activeFormation.forwards, activeFormation.guards, injuredPlayerIds, minimumMinutes],
+    [
+      activeFormation.centers,
+      activeFormation.flexSlots,
+      activeFormation.forwards,
+      activeFormation.guards,
+      apartPairs,
+      injuredPlayerIds,
+      lockedPlayerIds,
+      minimumMinutes,
+      positionSalaryCaps,
+      togetherPairs,
+    ],
   )
 
-  const weightConfig = useMemo(() => {
+  const weightConfig = useMemo<ScoreWeights>(() => {
     if (priorityMode === 'upside') {
       return { win: 0.52, monte: 0.28, chemistry: 0.1, riskPenalty: 0.14 }
     }
@@ -120,80 +502,204 @@ function App() {
     return { win: 0.45, monte: 0.25, chemistry: 0.18, riskPenalty: 0.11 }
   }, [priorityMode])
 
-  const strategyCandidates = useMemo(() => {
-    return strategyArchetypes.map((archetype) => {
-      const scale = strategyIntensity / 6
-      const scenario = {
-        paceDelta: Math.round(archetype.pace * scale),
-        shootingDelta: Math.round(archetype.shooting * scale),
-        turnoverDelta: Math.round(archetype.turnover * scale),
-      }
+  const archetypes = useMemo(() => [...strategyArchetypes, ...customArchetypes], [customArchetypes])
 
-      const lineup = optimizeLineupWithConstraints(players, budget, constraints)
-      const chemistry = evaluateLineupChemistry(lineup.lineup)
-      const winProbability = Math.max(1, Math.min(99, projectWinProbability(teamProfile, scenario) - opponentNetRating * 0.7))
-      const monte = runMonteCarloSimulation(teamProfile, scenario, opponentNetRating, simulationRuns)
-      const riskIndex = Math.max(
-        1,
-        Math.min(100, archetype.risk * 100 + Math.abs(scenario.turnoverDelta) * 4 + (100 - chemistry.overall) * 0.12),
-      )
-
-      const feasibilityPenalty = lineup.feasibility === 'optimal' ? 0 : 30
-      const score =
-        weightConfig.win * winProbability +
-        weightConfig.monte * monte.winRate +
-        weightConfig.chemistry * chemistry.overall -
-        weightConfig.riskPenalty * riskIndex -
-        feasibilityPenalty
-
-      return {
-        id: archetype.id,
-        label: archetype.label,
-        scenario,
-        lineup,
-        chemistry,
-        winProbability: Number(winProbability.toFixed(1)),
-        monteWinRate: monte.winRate,
-        expectedMargin: monte.averageMargin,
-        riskIndex: Number(riskIndex.toFixed(1)),
-        score: Number(score.toFixed(2)),
-        distribution: monte.distribution,
-      }
-    })
-  }, [budget, constraints, opponentNetRating, simulationRuns, strategyIntensity, weightConfig])
+  const tournamentInput = useMemo<TournamentInput>(
+    () => ({
+      team: teamProfile,
+      roster,
+      games,
+      budget,
+      constraints,
+      playProbabilities,
+      opponent: opponentProfile,
+      opponentNetRating,
+      opponentRoster,
+      archetypes,
+      strategyIntensity,
+      simulationMode,
+      simulationRuns,
+      simulationSeed,
+      weights: weightConfig,
+      coefficients: activeCoefficients,
+    }),
+    [
+      activeCoefficients,
+      archetypes,
+      budget,
+      constraints,
+      games,
+      opponentNetRating,
+      opponentProfile,
+      opponentRoster,
+      playProbabilities,
+      roster,
+      simulationMode,
+      simulationRuns,
+      simulationSeed,
+      strategyIntensity,
+      weightConfig,
+    ],
+  )
+
+  const tournament = useStrategyTournament(tournamentInput)
+
+  const seriesInput = useMemo<SeriesInput>(
+    () => ({ ...tournamentInput, homeCourt: seriesHomeCourt, injuryRecurrence: injuryRecurrence / 100 }),
+    [injuryRecurrence, seriesHomeCourt, tournamentInput],
+  )
+  const series = useSeriesSimulation()
+  const seriesStale = series.input !== null && series.input !== seriesInput
+  const archetypeNotes = useMemo<Record<string, string>>(
+    () => ({
+      ...Object.fromEntries(archetypes.map((archetype) => [archetype.id, archetype.notes])),
+      [OPTIMIZED_CANDIDATE_ID]: 'Best plan found by searching pace, shooting and turnovers within the intensity bounds.',
+    }),
+    [archetypes],
+  )
+  const strategyCandidates = tournament.candidates
 
   const bestCandidate = useMemo(
-    () => [...strategyCandidates].sort((left, right) => right.score - left.score)[0],
+    () => [...strategyCandidates].sort((left, right) => right.score - left.score)[0] ?? null,
     [strategyCandidates],
   )
 
+  // The frontier also covers the optimizer's search trials, so it shows every plan the tournament scored.
+  const plottedCandidates = useMemo(
+    () => [...strategyCandidates, ...tournament.explored],
+    [strategyCandidates, tournament.explored],
+  )
+  const frontier = useMemo(() => paretoFrontier(plottedCandidates), [plottedCandidates])
+  const dominatedCandidates = useMemo(
+    () => strategyCandidates.filter((candidate) => !frontier.includes(candidate)),
+    [frontier, strategyCandidates],
+  )
+  const dominatedTrials = useMemo(
+    () => tournament.explored.filter((candidate) => !frontier.includes(candidate)),
+    [frontier, tournament.explored],
+  )
+
   const activeCandidateId =
-    selectedCandidateId && strategyCandidates.some((candidate) => candidate.id === selectedCandidateId)
+    selectedCandidateId && plottedCandidates.some((candidate) => candidate.id === selectedCandidateId)
       ? selectedCandidateId
-      : bestCandidate.id
+      : bestCandidate?.id
 
-  const activePlan = strategyCandidates.find((candidate) => candidate.id === activeCandidateId) ?? bestCandidate
+  const activePlan = plottedCandidates.find((candidate) => candidate.id === activeCandidateId) ?? bestCandidate
+  const activeScenario = activePlan?.scenario ?? neutralScenario
+  const activeLineup = activePlan?.lineup.lineup
 
   const sensitivity = useMemo(
-    () => calculateScenarioSensitivity(teamProfile, activePlan.scenario, opponentNetRating),
-    [activePlan.scenario, opponentNetRating],
+    () =>
+      calculateScenarioSensitivity(
+        teamProfile,
+        activeScenario,
+        opponentNetRating,
+        activeCoefficients,
+        opponentProfile?.pace,
+      ),
+    [activeCoefficients, activeScenario, opponentNetRating, opponentProfile?.pace],
+  )
+
+  const sweepContext = useMemo<SweepContext>(
+    () => ({
+      team: teamProfile,
+      scenario: activeScenario,
+      opponentNetRating,
+      coefficients: activeCoefficients,
+      opponentPace: opponentProfile?.pace,
+    }),
+    [activeCoefficients, activeScenario, opponentNetRating, opponentProfile?.pace],
+  )
+  const tornado = useMemo(() => calculateTornado(sweepContext, sweepRange), [sweepContext, sweepRange])
+  const sensitivityGrid = useMemo(
+    () => sweepScenarioGrid(sweepContext, sweepAxes[0], sweepAxes[1], sweepRange),
+    [sweepAxes, sweepContext, sweepRange],
+  )
+  const tornadoChart = useMemo(
+    () =>
+      tornado.map((bar) => ({
+        label: bar.label,
+        low: Number((bar.lowWinProbability - sensitivityGrid.baseline).toFixed(1)),
+        high: Number((bar.highWinProbability - sensitivityGrid.baseline).toFixed(1)),
+      })),
+    [sensitivityGrid.baseline, tornado],
+  )
+
+  const matchupReport = useMemo(
+    () => buildMatchupReport(activeLineup ?? [], opponentRoster),
+    [activeLineup, opponentRoster],
+  )
+
+  const recommendationRules = useMemo(
+    () =>
+      [...DEFAULT_RECOMMENDATION_RULES, ...customRules].map((rule) => ({
+        ...rule,
+        enabled: !disabledRuleIds.includes(rule.id),
+      })),
+    [customRules, disabledRuleIds],
   )
 
   const recommendations = useMemo(
-    () => generateRecommendations(teamProfile, activePlan.scenario, opponentNetRating),
-    [activePlan.scenario, opponentNetRating],
+    () =>
+      generateRecommendations(
+        recommendationRules,
+        buildRuleContext(teamProfile, activeScenario, opponentNetRating, activePlan?.lineup ?? null, matchupReport),
+        matchupReport.mismatches,
+      ),
+    [activePlan?.lineup, activeScenario, matchupReport, opponentNetRating, recommendationRules],
   )
 
+  const activeBoxScore = activePlan?.boxScore ?? null
+
   const selectedPlayer = useMemo(
-    () => players.find((player) => player.id === selectedPlayerId) ?? activePlan.lineup.lineup[0] ?? players[0],
-    [activePlan.lineup.lineup, selectedPlayerId],
+    () => roster.find((player) => player.id === selectedPlayerId) ?? activeLineup?.[0] ?? roster[0],
+    [activeLineup, roster, selectedPlayerId],
   )
   const radarData = useMemo(() => buildPlayerRadar(selectedPlayer), [selectedPlayer])
 
+  // The rotation follows the locked plan's own settings; Setup edits only reach it through a new execution.
+  const lockedFormation = lockedPlan
+    ? formations.find((entry) => entry.id === lockedPlan.settings.formationId) ?? null
+    : null
+  const rotationInput = useMemo<RotationInput | null>(
+    () =>
+      lockedPlan && lockedFormation
+        ? {
+            team: teamProfile,
+            roster,
+            constraints: planConstraints(lockedPlan.settings, lockedFormation),
+            starterIds: lockedPlan.lineup.map((player) => player.id),
+          }
+        : null,
+    [lockedFormation, lockedPlan, roster],
+  )
+  const rotationPlan = useRotationPlan(rotationInput)
+  const { plan: rotation, isPlanning: isPlanningRotation } = rotationPlan
+  const rotationError =
+    lockedPlan && !lockedFormation
+      ? `formation ${lockedPlan.settings.formationId} of the locked plan no longer exists; execute the plan again.`
+      : rotationPlan.error
+  const rotationChart = useMemo(
+    () =>
+      (rotation?.segments ?? []).map((segment) => ({
+        clock: formatGameClock(segment.start),
+        netRating: segment.netRating,
+        efficiency: segment.efficiency,
+      })),
+    [rotation],
+  )
+
   const executePlan = () => {
+    if (!activePlan || activePlan.status !== 'final') {
+      return
+    }
+
     const snapshot: PlanSnapshot = {
+      snapshotId: createSnapshotId(),
       id: activePlan.id,
       label: activePlan.label,
+      opponent: opponentProfile?.name ?? 'League Average',
+      opponentNetRating,
       score: activePlan.score,
       winProbability: activePlan.winProbability,
       monteWinRate: activePlan.monteWinRate,
@@ -202,20 +708,270 @@ function App() {
       paceDelta: activePlan.scenario.paceDelta,
       shootingDelta: activePlan.scenario.shootingDelta,
       turnoverDelta: activePlan.scenario.turnoverDelta,
+      seed: activePlan.seed,
       lineup: activePlan.lineup.lineup.map((player) => ({
         id: player.id,
         name: player.name,
         position: player.position,
         salary: player.salary,
       })),
+      totalSalary: activePlan.lineup.totalSalary,
+      distribution: activePlan.distribution,
+      sensitivity,
+      sensitivityStep: SENSITIVITY_STEP,
+      availabilityImpact: activePlan.availabilityImpact,
       recommendations: recommendations.slice(0, 3),
-      lockedAt: new Date().toLocaleTimeString(),
+      settings: {
+        opponent: selectedOpponent,
+        formationId: activeFormation.id,
+        priorityMode,
+        strategyIntensity,
+        budget,
+        minimumMinutes,
+        simulationRuns,
+        simulationSeed,
+        simulationMode,
+        injuredPlayerIds,
+        playProbabilities,
+        lockedPlayerIds,
+        togetherPairs,
+        apartPairs,
+        positionSalaryCaps,
+        modelVersionId: activeCoefficients.id,
+      },
+      lockedAt: new Date().toISOString(),
     }
 
-    setLockedPlan(snapshot)
+    updatePlanHistory([snapshot, ...planHistory].slice(0, PLAN_HISTORY_LIMIT))
+    setLockedPlanId(snapshot.snapshotId)
+    setComparePlanIds(null)
     setViewMode('results')
   }
 
+  const updateModelVersions = (next: ModelCoefficients[]) => {
+    setModelVersions(next)
+    saveStoredValue(MODEL_VERSIONS_STORAGE_KEY, next)
+  }
+
+  const fitModelVersion = () => {
+    const result = fitModelCoefficients(teamProfile, games, uploadedTeams, modelVersions.length + 1, new Date().toISOString())
+    setModelFitMessage(result.message)
+    if (result.coefficients) {
+      updateModelVersions([...modelVersions, result.coefficients])
+      setModelVersionId(result.coefficients.id)
+    }
+  }
+
+  const deleteModelVersion = (versionId: string) => {
+    updateModelVersions(modelVersions.filter((version) => version.id !== versionId))
+    setModelVersionId(DEFAULT_MODEL_COEFFICIENTS.id)
+    setModelFitMessage('')
+  }
+
+  const updatePlanHistory = (next: PlanSnapshot[]) => {
+    setPlanHistory(next)
+    saveStoredValue(PLAN_HISTORY_STORAGE_KEY, next)
+  }
+
+  /** Applies saved Decision Room inputs; returns false when the opponent is not among `teams` and League Average was used. */
+  const applySettings = (
+    settings: PlanSettings,
+    teams: TeamCsvRow[],
+    availableFormations: Formation[],
+    availableModels: ModelCoefficients[],
+  ) => {
+    const opponentAvailable =
+      settings.opponent === 'league-average' || teams.some((team) => team.name === settings.opponent)
+
+    setSelectedOpponent(opponentAvailable ? settings.opponent : 'league-average')
+    setFormation(availableFormations.some((entry) => entry.id === settings.formationId) ? settings.formationId : 'balanced')
+    setPriorityMode(settings.priorityMode)
+    setStrategyIntensity(settings.strategyIntensity)
+    setBudget(settings.budget)
+    setMinimumMinutes(settings.minimumMinutes)
+    setSimulationRuns(settings.simulationRuns)
+    setSimulationSeed(settings.simulationSeed)
+    setSimulationMode(settings.simulationMode)
+    setInjuredPlayerIds(settings.injuredPlayerIds)
+    setPlayProbabilities(settings.playProbabilities)
+    setLockedPlayerIds(settings.lockedPlayerIds)
+    setTogetherPairs(settings.togetherPairs)
+    setApartPairs(settings.apartPairs)
+    setPositionSalaryCaps(settings.positionSalaryCaps)
+    setModelVersionId(
+      availableModels.some((version) => version.id === settings.modelVersionId)
+        ? settings.modelVersionId
+        : DEFAULT_MODEL_COEFFICIENTS.id,
+    )
+    return opponentAvailable
+  }
+
+  const restorePlan = (plan: PlanSnapshot) => {
+    const { settings } = plan
+    const opponentAvailable = applySettings(settings, uploadedTeams, formations, modelVersions)
+    setSelectedCandidateId(plan.id)
+    setLockedPlanId(plan.snapshotId)
+    setRestoreNotice(
+      opponentAvailable
+        ? `Restored "${plan.label}" from ${new Date(plan.lockedAt).toLocaleString()}.`
+        : `Restored "${plan.label}", but opponent ${settings.opponent} is not in the current scouting upload; using League Average.`,
+    )
+    setViewMode('strategy')
+  }
+
+  const applySession = (sessionImport: SessionImport) => {
+    const { config } = sessionImport
+    if (!config) {
+      setRestoreNotice(sessionImport.errors.join(' '))
+      return
+    }
+
+    const teams =
+      config.opponentProfile && !uploadedTeams.some((team) => team.name === config.opponentProfile?.name)
+        ? [...uploadedTeams, config.opponentProfile]
+        : uploadedTeams
+    setUploadedTeams(teams)
+
+    const nextFormations = config.formation.builtIn ? customFormations : mergeById(customFormations, [config.formation])
+    setCustomFormations(nextFormations)
+    saveStoredValue(FORMATION_STORAGE_KEY, nextFormations)
+    const nextArchetypes = mergeById(customArchetypes, config.customArchetypes)
+    setCustomArchetypes(nextArchetypes)
+    saveStoredValue(ARCHETYPE_STORAGE_KEY, nextArchetypes)
+
+    const nextModels =
+      config.modelCoefficients.id === DEFAULT_MODEL_COEFFICIENTS.id
+        ? modelVersions
+        : mergeById(modelVersions, [config.modelCoefficients])
+    updateModelVersions(nextModels)
+
+    const { settings, missingPlayerIds } = resolveSessionPlayers(config.settings, roster)
+    const opponentAvailable = applySettings(settings, teams, [...builtInFormations, ...nextFormations], nextModels)
+    setSelectedCandidateId(null)
+    setViewMode(config.viewMode)
+    const summary = describeSessionImport(sessionImport, missingPlayerIds)
+    setRestoreNotice(
+      opponentAvailable
+        ? summary
+        : `${summary} Opponent ${config.settings.opponent} has no ratings in this session; using League Average.`,
+    )
+  }
+
+  const handleSessionUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (!file) {
+      return
+    }
+
+    file
+      .text()
+      .then((text) => applySession(parseSessionConfig(JSON.parse(text), defaultSessionConfig)))
+      .catch(() => setRestoreNotice('Could not read this session file. Expected a JSON document exported from the Decision Room.'))
+    event.target.value = ''
+  }
+
+  const onSessionHashChange = useEffectEvent(() => {
+    const sessionImport = decodeSessionHash(window.location.hash, defaultSessionConfig)
+    if (sessionImport) {
+      applySession(sessionImport)
+    }
+  })
+
+  useEffect(() => {
+    const handleHashChange = () => onSessionHashChange()
+    window.addEventListener('hashchange', handleHashChange)
+    return () => window.removeEventListener('hashchange', handleHashChange)
+  }, [])
+
+  const sessionConfig = useMemo<SessionConfig>(
+    () => ({
+      version: SESSION_CONFIG_VERSION,
+      viewMode,
+      settings: {
+        opponent: selectedOpponent,
+        formationId: activeFormation.id,
+        priorityMode,
+        strategyIntensity,
+        budget,
+        minimumMinutes,
+        simulationRuns,
+        simulationSeed,
+        simulationMode,
+        injuredPlayerIds,
+        playProbabilities,
+        lockedPlayerIds,
+        togetherPairs,
+        apartPairs,
+        positionSalaryCaps,
+        modelVersionId: activeCoefficients.id,
+      },
+      opponentProfile: opponentProfile ? sessionOpponentRow(opponentProfile) : null,
+      formation: activeFormation,
+      customArchetypes,
+      modelCoefficients: activeCoefficients,
+    }),
+    [
+      activeCoefficients,
+      activeFormation,
+      apartPairs,
+      budget,
+      customArchetypes,
+      injuredPlayerIds,
+      lockedPlayerIds,
+      minimumMinutes,
+      opponentProfile,
+      playProbabilities,
+      positionSalaryCaps,
+      priorityMode,
+      selectedOpponent,
+      simulationMode,
+      simulationRuns,
+      simulationSeed,
+      strategyIntensity,
+      togetherPairs,
+      viewMode,
+    ],
+  )
+
+  // Uploads merge through functional updates, so the log is persisted once it commits.
+  useEffect(() => {
+    committedGames.current = games
+    if (games === gameLog) {
+      clearStoredValue(GAME_LOG_STORAGE_KEY)
+    } else {
+      saveStoredValue(GAME_LOG_STORAGE_KEY, games)
+    }
+  }, [games])
+
+  // Keep the address bar in sync so a reload or a copied link lands in the same setup.
+  useEffect(() => {
+    window.history.replaceState(null, '', encodeSessionHash(sessionConfig))
+  }, [sessionConfig])
+
+  const copySessionLink = () => {
+    navigator.clipboard
+      .writeText(window.location.href)
+      .then(() => setRestoreNotice('Session link copied to the clipboard.'))
+      .catch(() => setRestoreNotice('Clipboard is unavailable; copy the address bar instead.'))
+  }
+
+  const deletePlan = (snapshotId: string) => {
+    updatePlanHistory(planHistory.filter((plan) => plan.snapshotId !== snapshotId))
+    if (lockedPlanId === snapshotId) {
+      setLockedPlanId(null)
+    }
+    setComparePlanIds(null)
+  }
+
+  const compareIds =
+    comparePlanIds ?? (planHistory.length >= 2 ? [planHistory[1].snapshotId, planHistory[0].snapshotId] : null)
+  const compareLeft = planHistory.find((plan) => plan.snapshotId === compareIds?.[0])
+  const compareRight = planHistory.find((plan) => plan.snapshotId === compareIds?.[1])
+  const planComparison = compareLeft && compareRight ? comparePlans(compareLeft, compareRight) : null
+
+  const describePlan = (plan: PlanSnapshot) =>
+    `${plan.label} vs ${plan.opponent} · ${new Date(plan.lockedAt).toLocaleString()}`
+
   const handleCsvUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0]
     if (!file) {
@@ -234,6 +990,7 @@ function App() {
             offensiveRating: Number(row.offensiveRating),
             defensiveRating: Number(row.defensiveRating),
             pace: Number(row.pace),
+            ...readTeamFourFactors(row),
           }))
           .filter(
             (row: TeamCsvRow) =>
@@ -245,7 +1002,9 @@ function App() {
 
         if (validRows.length === 0) {
           setUploadedTeams([])
-          setUploadError('No valid rows found. Expected columns: name, offensiveRating, defensiveRating, pace')
+          setUploadError(
+            `No valid rows found. Expected columns: name, offensiveRating, defensiveRating, pace (optional ${teamFourFactorColumns.join(', ')})`,
+          )
           return
         }
 
@@ -257,13 +1016,355 @@ function App() {
     })
   }
 
-  const toggleInjury = (playerId: string) => {
+  const ingestGameLog = ({ games: incoming, errors }: GameLogImport) => {
+    setGameLogErrors(errors)
+
+    if (incoming.length === 0) {
+      setGameLogUploadError(`No valid games found. Expected fields: ${gameLogColumns.join(', ')}`)
+      return
+    }
+
+    const knownIds = new Set(committedGames.current.map((game) => game.game))
+    const added = incoming.filter((game) => !knownIds.has(game.game)).length
+    setGames((current) => mergeGameLogs(current, incoming))
+    setGameLogMessage(`Imported ${incoming.length} games (${added} new, ${incoming.length - added} updated).`)
+  }
+
+  const handleGameLogUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (!file) {
+      return
+    }
+
+    setGameLogUploadError('')
+    setGameLogErrors([])
+    setGameLogMessage('')
+    // Clear the input so choosing the same file again still fires a change; `file` stays readable.
+    event.target.value = ''
+
+    if (file.name.toLowerCase().endsWith('.json')) {
+      file
+        .text()
+        .then((text) => {
+          const parsed: unknown = JSON.parse(text)
+          const rows = Array.isArray(parsed) ? parsed : (parsed as { games?: unknown }).games
+          if (!Array.isArray(rows)) {
+            throw new Error('Expected an array of games')
+          }
+          ingestGameLog(validateGameLogRows(rows as Record<string, unknown>[], rows.map((_, index) => index + 1)))
+        })
+        .catch(() => {
+          setGameLogUploadError('Could not read this JSON file. Expected an array of games or { "games": [...] }.')
+        })
+      return
+    }
+
+    file
+      .text()
+      .then((text) => {
+        const { rows, lines } = parseCsvRows(text)
+        ingestGameLog(validateGameLogRows(rows, lines))
+      })
+      .catch(() => {
+        setGameLogUploadError('Could not parse this CSV file. Please try again.')
+      })
+  }
+
+  const resetGameLog = () => {
+    setGames(gameLog)
+    setGameLogErrors([])
+    setGameLogUploadError('')
+    setGameLogMessage('')
+  }
+
+  const applyRoster = (nextRoster: Player[]) => {
+    setRoster(nextRoster)
+    setInjuredPlayerIds([])
+    setPlayProbabilities({})
+    setLockedPlayerIds([])
+    setTogetherPairs([])
+    setApartPairs([])
+    setPairDraft([nextRoster[0].id, nextRoster[1].id])
+    setSelectedPlayerId(nextRoster[0].id)
+  }
+
+  const handleRosterUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (!file) {
+      return
+    }
+
+    setRosterUploadError('')
+    setRosterErrors([])
+
+    file
+      .text()
+      .then((text) => {
+        const { rows, lines } = parseCsvRows(text)
+        const { players: importedPlayers, errors } = validateRosterRows(rows, lines)
+        setRosterErrors(errors)
+
+        if (importedPlayers.length < 5) {
+          setRosterUploadError(
+            `Roster needs at least 5 valid players (found ${importedPlayers.length}). Expected columns: ${rosterCsvColumns.join(', ')}`,
+          )
+          return
+        }
+
+        applyRoster(importedPlayers)
+      })
+      .catch(() => {
+        setRosterUploadError('Could not parse this CSV file. Please try again.')
+      })
+    // Clear the input so choosing the same file again still fires a change.
+    event.target.value = ''
+  }
+
+  const handleOpponentRosterUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (!file) {
+      return
+    }
+
+    setOpponentRosterUploadError('')
+    setOpponentRosterErrors([])
+
+    file
+      .text()
+      .then((text) => {
+        const { rows, lines } = parseCsvRows(text)
+        const { players: importedPlayers, errors } = validateRosterRows(rows, lines)
+        setOpponentRosterErrors(errors)
+
+        if (importedPlayers.length < 5) {
+          setOpponentRosterUploadError(
+            `Opponent roster needs at least 5 valid players (found ${importedPlayers.length}). Expected columns: ${rosterCsvColumns.join(', ')}`,
+          )
+          return
+        }
+
+        setOpponentRoster(importedPlayers)
+      })
+      .catch(() => {
+        setOpponentRosterUploadError('Could not parse this CSV file. Please try again.')
+      })
+    event.target.value = ''
+  }
+
+  const clearOpponentRoster = () => {
+    setOpponentRosterErrors([])
+    setOpponentRosterUploadError('')
+    setOpponentRoster([])
+  }
+
+  const resetRoster = () => {
+    setRosterErrors([])
+    setRosterUploadError('')
+    applyRoster(players)
+  }
+
+  const updateAvailability = (playerId: string, status: AvailabilityStatus) => {
     setInjuredPlayerIds((current) =>
+      status === 'out' ? [...current.filter((id) => id !== playerId), playerId] : current.filter((id) => id !== playerId),
+    )
+    setPlayProbabilities((current) => {
+      const rest = Object.fromEntries(Object.entries(current).filter(([id]) => id !== playerId))
+      const probability = AVAILABILITY_PROBABILITY[status]
+      return probability > 0 && probability < 1 ? { ...rest, [playerId]: probability } : rest
+    })
+  }
+
+  // Picking the factor already on the other axis swaps the two axes.
+  const updateSweepAxis = (axis: 0 | 1, factor: ScenarioFactor) => {
+    setSweepAxes((current) => {
+      const next: [ScenarioFactor, ScenarioFactor] = [...current]
+      if (next[1 - axis] === factor) {
+        next[1 - axis] = next[axis]
+      }
+      next[axis] = factor
+      return next
+    })
+  }
+
+  // Scatter points carry the plotted candidate as their payload.
+  const selectPlottedCandidate = (point: { payload?: StrategyCandidate }) => {
+    if (point.payload) {
+      setSelectedCandidateId(point.payload.id)
+    }
+  }
+
+  const toggleLock = (playerId: string) => {
+    setLockedPlayerIds((current) =>
       current.includes(playerId) ? current.filter((id) => id !== playerId) : [...current, playerId],
     )
   }
 
+  const addPairRule = (kind: 'together' | 'apart') => {
+    const [first, second] = pairDraft
+    if (first === second) {
+      return
+    }
+
+    const samePair = ([left, right]: [string, string]) =>
+      (left === first && right === second) || (left === second && right === first)
+    const setPairs = kind === 'together' ? setTogetherPairs : setApartPairs
+    setPairs((current) => (current.some(samePair) ? current : [...current, [first, second]]))
+  }
+
+  const removePairRule = (kind: 'together' | 'apart', index: number) => {
+    const setPairs = kind === 'together' ? setTogetherPairs : setApartPairs
+    setPairs((current) => current.filter((_, pairIndex) => pairIndex !== index))
+  }
+
+  const updatePositionSalaryCap = (position: Player['position'], value: string) => {
+    setPositionSalaryCaps((current) => {
+      const next = { ...current }
+      if (value === '' || Number.isNaN(Number(value))) {
+        delete next[position]
+      } else {
+        next[position] = Math.max(0, Number(value))
+      }
+      return next
+    })
+  }
+
+  const saveFormationDraft = () => {
+    if (!formationDraft || formationDraft.label.trim().length === 0 || formationSlotCount(formationDraft) !== LINEUP_SLOTS) {
+      return
+    }
+
+    const saved: Formation = { ...formationDraft, label: formationDraft.label.trim(), id: createFormationId(), builtIn: false }
+    const next = [...customFormations, saved]
+    setCustomFormations(next)
+    saveStoredValue(FORMATION_STORAGE_KEY, next)
+    setFormation(saved.id)
+    setFormationDraft(null)
+  }
+
+  const deleteFormation = (formationId: string) => {
+    const next = customFormations.filter((entry) => entry.id !== formationId)
+    setCustomFormations(next)
+    saveStoredValue(FORMATION_STORAGE_KEY, next)
+    setFormation('balanced')
+  }
+
+  const updateCustomArchetypes = (next: StrategyArchetype[]) => {
+    setCustomArchetypes(next)
+    saveStoredValue(ARCHETYPE_STORAGE_KEY, next)
+  }
+
+  const startNewArchetype = () => {
+    setArchetypeDraft({ id: null, label: '', pace: 0, shooting: 0, turnover: 0, risk: 0.5, notes: '' })
+  }
+
+  const editArchetype = (archetype: StrategyArchetype) => {
+    setArchetypeDraft({ ...archetype })
+  }
+
+  const cloneArchetype = (archetype: StrategyArchetype) => {
+    setArchetypeDraft({ ...archetype, id: null, label: `${archetype.label} (copy)` })
+  }
+
+  const deleteArchetype = (archetypeId: string) => {
+    updateCustomArchetypes(customArchetypes.filter((archetype) => archetype.id !== archetypeId))
+    if (archetypeDraft?.id === archetypeId) {
+      setArchetypeDraft(null)
+    }
+  }
+
+  const saveArchetypeDraft = () => {
+    if (!archetypeDraft || archetypeDraft.label.trim().length === 0) {
+      return
+    }
+
+    const { id, ...fields } = archetypeDraft
+    const archetype: StrategyArchetype = {
+      ...fields,
+      id: id ?? createArchetypeId(),
+      label: fields.label.trim(),
+      notes: fields.notes.trim(),
+      pace: Math.max(-10, Math.min(10, fields.pace)),
+      shooting: Math.max(-10, Math.min(10, fields.shooting)),
+      turnover: Math.max(-10, Math.min(10, fields.turnover)),
+      risk: Math.max(0, Math.min(1, fields.risk)),
+      builtIn: false,
+    }
+
+    updateCustomArchetypes(
+      id
+        ? customArchetypes.map((entry) => (entry.id === archetype.id ? archetype : entry))
+        : [...customArchetypes, archetype],
+    )
+    setArchetypeDraft(null)
+  }
+
+  const updateCustomRules = (next: RecommendationRule[]) => {
+    setCustomRules(next)
+    saveStoredValue(RULE_STORAGE_KEY, next)
+  }
+
+  const toggleRule = (ruleId: string) => {
+    const next = disabledRuleIds.includes(ruleId)
+      ? disabledRuleIds.filter((entry) => entry !== ruleId)
+      : [...disabledRuleIds, ruleId]
+    setDisabledRuleIds(next)
+    saveStoredValue(DISABLED_RULES_STORAGE_KEY, next)
+  }
+
+  const deleteRule = (ruleId: string) => {
+    updateCustomRules(customRules.filter((rule) => rule.id !== ruleId))
+    if (ruleDraft?.id === ruleId) {
+      setRuleDraft(null)
+    }
+  }
+
+  const updateRuleCondition = (index: number, patch: Partial<RuleCondition>) => {
+    if (!ruleDraft) {
+      return
+    }
+    setRuleDraft({
+      ...ruleDraft,
+      conditions: ruleDraft.conditions.map((condition, position) =>
+        position === index ? { ...condition, ...patch } : condition,
+      ),
+    })
+  }
+
+  const saveRuleDraft = () => {
+    if (!ruleDraft || ruleDraft.name.trim().length === 0 || ruleDraft.title.trim().length === 0) {
+      return
+    }
+
+    const { id, ...fields } = ruleDraft
+    const rule: RecommendationRule = {
+      ...fields,
+      id: id ?? createRuleId(),
+      name: fields.name.trim(),
+      title: fields.title.trim(),
+      detail: fields.detail.trim(),
+      enabled: true,
+      builtIn: false,
+    }
+
+    updateCustomRules(id ? customRules.map((entry) => (entry.id === rule.id ? rule : entry)) : [...customRules, rule])
+    setRuleDraft(null)
+  }
+
+  const playerName = (playerId: string) => roster.find((player) => player.id === playerId)?.name ?? playerId
+
   const formatSigned = (value: number) => (value > 0 ? `+${value}` : `${value}`)
+  const formatRate = (value: number | null) => (value === null ? '—' : `${(value * 100).toFixed(1)}%`)
+
+  const boxScoreRows: { label: string; pick: (totals: BoxScoreTotals) => string }[] = [
+    { label: 'Possessions', pick: (totals) => totals.possessions.toFixed(1) },
+    { label: 'Points', pick: (totals) => totals.points.toFixed(1) },
+    { label: 'FGM / FGA', pick: (totals) => `${totals.fieldGoalsMade.toFixed(1)} / ${totals.fieldGoalAttempts.toFixed(1)}` },
+    { label: '3PM', pick: (totals) => totals.threesMade.toFixed(1) },
+    { label: 'FTM', pick: (totals) => totals.freeThrowsMade.toFixed(1) },
+    { label: 'eFG%', pick: (totals) => `${(totals.effectiveFgPct * 100).toFixed(1)}%` },
+    { label: 'Turnovers', pick: (totals) => totals.turnovers.toFixed(1) },
+    { label: 'Off. Rebounds', pick: (totals) => totals.offensiveRebounds.toFixed(1) },
+  ]
 
   return (
     <div className="decision-shell">
@@ -292,6 +1393,19 @@ function App() {
             3) Results
           </button>
         </nav>
+        <div className="session-actions">
+          <button type="button" onClick={copySessionLink}>
+            Copy Session Link
+          </button>
+          <button
+            type="button"
+            onClick={() => downloadFile('decision-room-session.json', 'application/json', serializeSessionConfig(sessionConfig))}
+          >
+            Download Session
+          </button>
+          <label htmlFor="session-upload">Import Session</label>
+          <input id="session-upload" type="file" accept=".json" onChange={handleSessionUpload} />
+        </div>
       </header>
 
       <section className="status-row">
@@ -305,7 +1419,7 @@ function App() {
         </article>
         <article>
           <span>Best Candidate</span>
-          <strong>{bestCandidate.label}</strong>
+          <strong>{bestCandidate?.label ?? 'Evaluating…'}</strong>
         </article>
         <article>
           <span>Locked Plan</span>
@@ -313,6 +1427,15 @@ function App() {
         </article>
       </section>
 
+      {restoreNotice && (
+        <section className="card notice-card">
+          <p>{restoreNotice}</p>
+          <button type="button" onClick={() => setRestoreNotice('')}>
+            Dismiss
+          </button>
+        </section>
+      )}
+
       {viewMode === 'setup' && (
         <section className="setup-grid">
           <article className="card">
@@ -330,6 +1453,29 @@ function App() {
             <input id="csv-upload" type="file" accept=".csv" onChange={handleCsvUpload} />
             <p className="muted">Current opponent net: {opponentNetRating.toFixed(1)}</p>
             {uploadError && <p className="error-text">{uploadError}</p>}
+
+            <label htmlFor="opponent-roster-upload">Upload Opponent Roster CSV</label>
+            <input id="opponent-roster-upload" type="file" accept=".csv" onChange={handleOpponentRosterUpload} />
+            <div className="seed-row">
+              <p className="muted">
+                {opponentRoster.length > 0
+                  ? `Scouted roster: ${opponentRoster.length} players`
+                  : 'No opponent roster; matchups are not scored.'}
+              </p>
+              <button type="button" disabled={opponentRoster.length === 0} onClick={clearOpponentRoster}>
+                Clear
+              </button>
+            </div>
+            {opponentRosterUploadError && <p className="error-text">{opponentRosterUploadError}</p>}
+            {opponentRosterErrors.length > 0 && (
+              <ul className="row-errors">
+                {opponentRosterErrors.map((error) => (
+                  <li key={error.row}>
+                    Row {error.row}: {error.message}
+                  </li>
+                ))}
+              </ul>
+            )}
           </article>
 
           <article className="card">
@@ -349,43 +1495,212 @@ function App() {
             <input
               id="intensity"
               type="range"
-              min={1}
-              max={10}
-              step={1}
+              min={SETTING_LIMITS.strategyIntensity.min}
+              max={SETTING_LIMITS.strategyIntensity.max}
+              step={SETTING_LIMITS.strategyIntensity.step}
               value={strategyIntensity}
               onChange={(event) => setStrategyIntensity(Number(event.target.value))}
             />
 
+            <label htmlFor="sim-mode">Simulation Engine</label>
+            <select
+              id="sim-mode"
+              value={simulationMode}
+              onChange={(event) => setSimulationMode(event.target.value as SimulationMode)}
+            >
+              <option value="margin">Net Rating Margin</option>
+              <option value="possession">Possession-by-Possession (Four Factors)</option>
+            </select>
+
             <label htmlFor="sim-runs">Simulation Runs ({simulationRuns})</label>
             <input
               id="sim-runs"
               type="range"
-              min={1000}
-              max={6000}
-              step={500}
+              min={SETTING_LIMITS.simulationRuns.min}
+              max={SETTING_LIMITS.simulationRuns.max}
+              step={SETTING_LIMITS.simulationRuns.step}
               value={simulationRuns}
               onChange={(event) => setSimulationRuns(Number(event.target.value))}
             />
+
+            <label htmlFor="sim-seed">Simulation Seed</label>
+            <div className="seed-row">
+              <input
+                id="sim-seed"
+                type="number"
+                min={SETTING_LIMITS.simulationSeed.min}
+                max={SETTING_LIMITS.simulationSeed.max}
+                step={SETTING_LIMITS.simulationSeed.step}
+                value={simulationSeed}
+                onChange={(event) =>
+                  setSimulationSeed(
+                    Math.min(SETTING_LIMITS.simulationSeed.max, Math.max(0, Math.floor(Number(event.target.value) || 0))),
+                  )
+                }
+              />
+              <button type="button" onClick={() => setSimulationSeed(generateSimulationSeed())}>
+                Re-roll
+              </button>
+            </div>
+            <p className="muted">Same seed + same inputs reproduce identical Monte Carlo results.</p>
+
+            <label htmlFor="game-log-upload">Append Game Log (CSV or JSON)</label>
+            <input id="game-log-upload" type="file" accept=".csv,.json" onChange={handleGameLogUpload} />
+            <div className="seed-row">
+              <p className="muted">Game log: {games.length} games</p>
+              <button type="button" onClick={resetGameLog}>
+                Reset Log
+              </button>
+            </div>
+            {gameLogMessage && <p className="muted">{gameLogMessage}</p>}
+
+            <label htmlFor="model-version">Model Coefficients</label>
+            <div className="seed-row">
+              <select id="model-version" value={activeCoefficients.id} onChange={(event) => setModelVersionId(event.target.value)}>
+                <option value={DEFAULT_MODEL_COEFFICIENTS.id}>{DEFAULT_MODEL_COEFFICIENTS.label}</option>
+                {modelVersions.map((version) => (
+                  <option key={version.id} value={version.id}>
+                    {version.label}
+                  </option>
+                ))}
+              </select>
+              <button type="button" onClick={fitModelVersion}>
+                Fit from Log
+              </button>
+              {activeCoefficients.id !== DEFAULT_MODEL_COEFFICIENTS.id && (
+                <button type="button" onClick={() => deleteModelVersion(activeCoefficients.id)}>
+                  Delete
+                </button>
+              )}
+            </div>
+            <p className="muted">
+              Win: shooting {activeCoefficients.win.shooting.toFixed(3)} · turnovers {activeCoefficients.win.turnover.toFixed(3)} ·
+              pace {activeCoefficients.win.pace.toFixed(3)} · opponent{' '}
+              {activeCoefficients.win.opponentPenalty === undefined
+                ? `${activeCoefficients.win.opponentNetRating.toFixed(3)} (logit)`
+                : `−${activeCoefficients.win.opponentPenalty.toFixed(2)}% per point`}
+              . Margin: shooting {activeCoefficients.margin.shooting.toFixed(2)} ·
+              turnovers {activeCoefficients.margin.turnover.toFixed(2)} · pace {activeCoefficients.margin.pace.toFixed(2)} · opponent{' '}
+              {activeCoefficients.margin.opponentNetRating.toFixed(2)}
+              {activeCoefficients.fittedAt && ` · fitted ${new Date(activeCoefficients.fittedAt).toLocaleDateString()}`}
+            </p>
+            <p className="muted">
+              Fits need at least {MIN_FIT_GAMES} games and are shrunk toward the defaults with a ridge strength of{' '}
+              {RIDGE_STRENGTH} (about {RIDGE_STRENGTH} games' worth of evidence).
+            </p>
+            {modelFitMessage && <p className="muted">{modelFitMessage}</p>}
+            {gameLogUploadError && <p className="error-text">{gameLogUploadError}</p>}
+            {gameLogErrors.length > 0 && (
+              <ul className="row-errors">
+                {gameLogErrors.map((error) => (
+                  <li key={error.row}>
+                    Row {error.row}: {error.message}
+                  </li>
+                ))}
+              </ul>
+            )}
           </article>
 
           <article className="card">
             <h2>3. Roster Constraints</h2>
             <label htmlFor="formation">Formation</label>
-            <select id="formation" value={formation} onChange={(event) => setFormation(event.target.value as FormationKey)}>
-              {Object.entries(formationMap).map(([key, value]) => (
-                <option key={key} value={key}>
-                  {value.label}
+            <select id="formation" value={activeFormation.id} onChange={(event) => setFormation(event.target.value)}>
+              {formations.map((entry) => (
+                <option key={entry.id} value={entry.id}>
+                  {entry.label} ({describeFormation(entry)})
                 </option>
               ))}
             </select>
+            <div className="pair-builder formation-actions">
+              <button
+                type="button"
+                onClick={() =>
+                  setFormationDraft(
+                    formationDraft
+                      ? null
+                      : {
+                          label: '',
+                          guards: activeFormation.guards,
+                          forwards: activeFormation.forwards,
+                          centers: activeFormation.centers,
+                          flexSlots: { ...activeFormation.flexSlots },
+                        },
+                  )
+                }
+              >
+                {formationDraft ? 'Close Builder' : 'Build Formation'}
+              </button>
+              <button type="button" disabled={activeFormation.builtIn} onClick={() => deleteFormation(activeFormation.id)}>
+                Delete Formation
+              </button>
+            </div>
+            {formationDraft && (
+              <div className="archetype-form">
+                <label htmlFor="formation-name">Formation Name</label>
+                <input
+                  id="formation-name"
+                  type="text"
+                  value={formationDraft.label}
+                  onChange={(event) => setFormationDraft({ ...formationDraft, label: event.target.value })}
+                />
+                <div className="cap-grid">
+                  {formationSlotFields.map(([field, label]) => (
+                    <label key={field}>
+                      {label}
+                      <input
+                        type="number"
+                        min={0}
+                        max={LINEUP_SLOTS}
+                        value={formationDraft[field]}
+                        onChange={(event) =>
+                          setFormationDraft({ ...formationDraft, [field]: Math.max(0, Math.floor(Number(event.target.value) || 0)) })
+                        }
+                      />
+                    </label>
+                  ))}
+                  {flexSlotKeys.map((slot) => (
+                    <label key={slot}>
+                      {slot}
+                      <input
+                        type="number"
+                        min={0}
+                        max={LINEUP_SLOTS}
+                        value={formationDraft.flexSlots[slot] ?? 0}
+                        onChange={(event) =>
+                          setFormationDraft({
+                            ...formationDraft,
+                            flexSlots: {
+                              ...formationDraft.flexSlots,
+                              [slot]: Math.max(0, Math.floor(Number(event.target.value) || 0)),
+                            },
+                          })
+                        }
+                      />
+                    </label>
+                  ))}
+                </div>
+                <p className={formationSlotCount(formationDraft) === LINEUP_SLOTS ? 'muted' : 'error-text'}>
+                  {formationSlotCount(formationDraft)}/{LINEUP_SLOTS} slots filled
+                </p>
+                <div className="pair-builder">
+                  <button
+                    type="button"
+                    disabled={formationDraft.label.trim().length === 0 || formationSlotCount(formationDraft) !== LINEUP_SLOTS}
+                    onClick={saveFormationDraft}
+                  >
+                    Save Formation
+                  </button>
+                </div>
+              </div>
+            )}
 
             <label htmlFor="budget">Budget (${budget.toLocaleString()})</label>
             <input
               id="budget"
               type="range"
-              min={25000}
-              max={45000}
-              step={500}
+              min={SETTING_LIMITS.budget.min}
+              max={SETTING_LIMITS.budget.max}
+              step={SETTING_LIMITS.budget.step}
               value={budget}
               onChange={(event) => setBudget(Number(event.target.value))}
             />
@@ -394,30 +1709,236 @@ function App() {
             <input
               id="min-minutes"
               type="range"
-              min={16}
-              max={36}
-              step={1}
+              min={SETTING_LIMITS.minimumMinutes.min}
+              max={SETTING_LIMITS.minimumMinutes.max}
+              step={SETTING_LIMITS.minimumMinutes.step}
               value={minimumMinutes}
               onChange={(event) => setMinimumMinutes(Number(event.target.value))}
             />
 
-            <p className="muted">Injury / unavailable players</p>
+            <label htmlFor="roster-upload">Upload Roster CSV</label>
+            <input id="roster-upload" type="file" accept=".csv" onChange={handleRosterUpload} />
+            <div className="seed-row">
+              <p className="muted">Active roster: {roster.length} players</p>
+              <button type="button" disabled={roster === players} onClick={resetRoster}>
+                Use Default Roster
+              </button>
+            </div>
+            {rosterUploadError && <p className="error-text">{rosterUploadError}</p>}
+            {rosterErrors.length > 0 && (
+              <ul className="row-errors">
+                {rosterErrors.map((error) => (
+                  <li key={error.row}>
+                    Row {error.row}: {error.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <p className="muted">Injury report (uncertain players are sampled in every simulation run)</p>
+            <div className="injury-wrap">
+              {roster.map((player) => (
+                <label key={player.id} className="injury-item availability-item">
+                  {player.name}
+                  <select
+                    value={
+                      injuredPlayerIds.includes(player.id) ? 'out' : availabilityStatus(playProbabilities[player.id] ?? 1)
+                    }
+                    onChange={(event) => updateAvailability(player.id, event.target.value as AvailabilityStatus)}
+                  >
+                    {AVAILABILITY_STATUSES.map((status) => (
+                      <option key={status} value={status}>
+                        {availabilityLabels[status]}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              ))}
+            </div>
+
+            <p className="muted">Locked-in players (always start)</p>
             <div className="injury-wrap">
-              {players.map((player) => (
+              {roster.map((player) => (
                 <label key={player.id} className="injury-item">
                   <input
                     type="checkbox"
-                    checked={injuredPlayerIds.includes(player.id)}
-                    onChange={() => toggleInjury(player.id)}
+                    checked={lockedPlayerIds.includes(player.id)}
+                    onChange={() => toggleLock(player.id)}
                   />
                   {player.name}
                 </label>
               ))}
             </div>
+
+            <p className="muted">Pair rules</p>
+            <div className="pair-builder">
+              <select
+                aria-label="First player"
+                value={pairDraft[0]}
+                onChange={(event) => setPairDraft([event.target.value, pairDraft[1]])}
+              >
+                {roster.map((player) => (
+                  <option key={player.id} value={player.id}>
+                    {player.name}
+                  </option>
+                ))}
+              </select>
+              <select
+                aria-label="Second player"
+                value={pairDraft[1]}
+                onChange={(event) => setPairDraft([pairDraft[0], event.target.value])}
+              >
+                {roster.map((player) => (
+                  <option key={player.id} value={player.id}>
+                    {player.name}
+                  </option>
+                ))}
+              </select>
+              <button type="button" disabled={pairDraft[0] === pairDraft[1]} onClick={() => addPairRule('together')}>
+                Together
+              </button>
+              <button type="button" disabled={pairDraft[0] === pairDraft[1]} onClick={() => addPairRule('apart')}>
+                Never Together
+              </button>
+            </div>
+            {(togetherPairs.length > 0 || apartPairs.length > 0) && (
+              <ul className="rule-list">
+                {togetherPairs.map(([first, second], index) => (
+                  <li key={`together-${first}-${second}`}>
+                    <span>
+                      {playerName(first)} + {playerName(second)}
+                    </span>
+                    <button type="button" aria-label="Remove rule" onClick={() => removePairRule('together', index)}>
+                      ×
+                    </button>
+                  </li>
+                ))}
+                {apartPairs.map(([first, second], index) => (
+                  <li key={`apart-${first}-${second}`}>
+                    <span>
+                      {playerName(first)} ≠ {playerName(second)}
+                    </span>
+                    <button type="button" aria-label="Remove rule" onClick={() => removePairRule('apart', index)}>
+                      ×
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <p className="muted">Position salary ceilings (total per position)</p>
+            <div className="cap-grid">
+              {(['G', 'F', 'C'] as const).map((position) => (
+                <label key={position}>
+                  {position}
+                  <input
+                    type="number"
+                    min={0}
+                    step={500}
+                    placeholder="No cap"
+                    value={positionSalaryCaps[position] ?? ''}
+                    onChange={(event) => updatePositionSalaryCap(position, event.target.value)}
+                  />
+                </label>
+              ))}
+            </div>
+          </article>
+
+          <article className="card">
+            <h2>4. Strategy Archetypes</h2>
+            <ul className="rule-list">
+              {archetypes.map((archetype) => (
+                <li key={archetype.id}>
+                  <span>
+                    {archetype.label}
+                    {archetype.builtIn && <em className="muted"> · built-in</em>}
+                  </span>
+                  <span className="archetype-actions">
+                    {!archetype.builtIn && (
+                      <button type="button" onClick={() => editArchetype(archetype)}>
+                        Edit
+                      </button>
+                    )}
+                    <button type="button" onClick={() => cloneArchetype(archetype)}>
+                      Clone
+                    </button>
+                    {!archetype.builtIn && (
+                      <button type="button" onClick={() => deleteArchetype(archetype.id)}>
+                        Delete
+                      </button>
+                    )}
+                  </span>
+                </li>
+              ))}
+            </ul>
+
+            {archetypeDraft ? (
+              <div className="archetype-form">
+                <label htmlFor="archetype-name">Name</label>
+                <input
+                  id="archetype-name"
+                  type="text"
+                  value={archetypeDraft.label}
+                  onChange={(event) => setArchetypeDraft({ ...archetypeDraft, label: event.target.value })}
+                />
+                <div className="cap-grid">
+                  {(
+                    [
+                      ['pace', 'Pace'],
+                      ['shooting', 'Shooting'],
+                      ['turnover', 'TO'],
+                    ] as const
+                  ).map(([field, label]) => (
+                    <label key={field}>
+                      {label}
+                      <input
+                        type="number"
+                        min={-10}
+                        max={10}
+                        step={1}
+                        value={archetypeDraft[field]}
+                        onChange={(event) => setArchetypeDraft({ ...archetypeDraft, [field]: Number(event.target.value) || 0 })}
+                      />
+                    </label>
+                  ))}
+                </div>
+                <label htmlFor="archetype-risk">Risk Baseline ({archetypeDraft.risk.toFixed(2)})</label>
+                <input
+                  id="archetype-risk"
+                  type="range"
+                  min={0}
+                  max={1}
+                  step={0.01}
+                  value={archetypeDraft.risk}
+                  onChange={(event) => setArchetypeDraft({ ...archetypeDraft, risk: Number(event.target.value) })}
+                />
+                <label htmlFor="archetype-notes">Notes</label>
+                <textarea
+                  id="archetype-notes"
+                  rows={2}
+                  value={archetypeDraft.notes}
+                  onChange={(event) => setArchetypeDraft({ ...archetypeDraft, notes: event.target.value })}
+                />
+                <div className="pair-builder">
+                  <button type="button" disabled={archetypeDraft.label.trim().length === 0} onClick={saveArchetypeDraft}>
+                    {archetypeDraft.id ? 'Save Changes' : 'Add Archetype'}
+                  </button>
+                  <button type="button" onClick={() => setArchetypeDraft(null)}>
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div className="pair-builder">
+                <button type="button" onClick={startNewArchetype}>
+                  New Archetype
+                </button>
+              </div>
+            )}
           </article>
 
           <article className="card execute-card">
-            <h2>4. Run Decision Engine</h2>
+            <h2>5. Run Decision Engine</h2>
             <p className="muted">Compare all strategy archetypes and pick one plan to execute.</p>
             <button type="button" onClick={() => setViewMode('strategy')}>
               Continue to Strategy Evaluation
@@ -428,19 +1949,38 @@ function App() {
 
       {viewMode === 'strategy' && (
         <>
+          <section className="card tournament-progress">
+            <div className="result-head">
+              <h2>{tournament.isRunning ? 'Evaluating strategies…' : 'Tournament complete'}</h2>
+              <span className="muted">
+                {tournament.completed}/{tournament.total} steps
+              </span>
+            </div>
+            <progress max={tournament.total || 1} value={tournament.completed} />
+            {tournament.error && <p className="error-text">Tournament failed: {tournament.error}</p>}
+          </section>
+
           <section className="candidate-grid">
             {strategyCandidates.map((candidate) => (
               <article key={candidate.id} className={`candidate-card ${candidate.id === activeCandidateId ? 'selected' : ''}`}>
-                <h3>{candidate.label}</h3>
+                <h3>
+                  {candidate.label}
+                  {candidate.status !== 'final' && (
+                    <em className="candidate-status">{candidate.status === 'stale' ? 'Updating' : 'Preliminary'}</em>
+                  )}
+                </h3>
                 <p>
                   Pace {formatSigned(candidate.scenario.paceDelta)} · Shooting {formatSigned(candidate.scenario.shootingDelta)} · TO{' '}
                   {formatSigned(candidate.scenario.turnoverDelta)}
                 </p>
+                {archetypeNotes[candidate.id] && <p className="candidate-notes">{archetypeNotes[candidate.id]}</p>}
                 <div className="candidate-metrics">
                   <span>Score {candidate.score}</span>
                   <span>Win {candidate.winProbability}%</span>
                   <span>MC {candidate.monteWinRate}%</span>
                   <span>Risk {candidate.riskIndex}</span>
+                  <span>Tempo {candidate.expectedTempo}</span>
+                  {opponentRoster.length > 0 && <span>Matchup {formatSigned(candidate.matchupEdge)}</span>}
                 </div>
                 <button type="button" onClick={() => setSelectedCandidateId(candidate.id)}>
                   Select Plan
@@ -449,12 +1989,117 @@ function App() {
             ))}
           </section>
 
+          <section className="card frontier-card">
+            <div className="result-head">
+              <h2>Win vs Risk Frontier</h2>
+              <span className="muted">
+                {frontier.length} of {plottedCandidates.length} plans are not beaten on both axes
+              </span>
+            </div>
+            <p className="muted">
+              Each point is an evaluated plan, including every trial of the optimizer's search. The frontier holds the plans
+              no other plan beats on both win probability and risk; click a point or pick one below to make it the active
+              plan. Trials off the frontier keep their quicker search simulation and are shown for reference only.
+            </p>
+            <div className="chart-box">
+              <ResponsiveContainer width="100%" height="100%">
+                <ScatterChart>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#d4deee" />
+                  <XAxis type="number" dataKey="riskIndex" name="Risk" stroke="#6b7d97" domain={['auto', 'auto']} />
+                  <YAxis type="number" dataKey="winProbability" name="Win %" stroke="#6b7d97" domain={['auto', 'auto']} />
+                  <Tooltip cursor={{ strokeDasharray: '3 3' }} />
+                  <Legend />
+                  <Scatter
+                    name="Dominated"
+                    data={dominatedCandidates}
+                    fill="#94a3b8"
+                    onClick={selectPlottedCandidate}
+                  />
+                  <Scatter name="Search trials" data={dominatedTrials} fill="#cbd5e1" />
+                  <Scatter
+                    name="Frontier"
+                    data={frontier}
+                    fill="#2563eb"
+                    line
+                    onClick={selectPlottedCandidate}
+                  />
+                </ScatterChart>
+              </ResponsiveContainer>
+            </div>
+            <div className="frontier-picks">
+              {frontier.map((candidate) => (
+                <button
+                  key={candidate.id}
+                  type="button"
+                  className={candidate.id === activeCandidateId ? 'selected' : ''}
+                  onClick={() => setSelectedCandidateId(candidate.id)}
+                >
+                  {candidate.label} · Win {candidate.winProbability}% · Risk {candidate.riskIndex}
+                  {candidate.id === bestCandidate?.id && ' · top score'}
+                </button>
+              ))}
+            </div>
+          </section>
+
+          <section className="card four-factors-card">
+            <div className="result-head">
+              <h2>Four Factors vs {fourFactors.opponent}</h2>
+              <span className={fourFactors.netPointsPer100 >= 0 ? 'delta-up' : 'delta-down'}>
+                Net {formatSigned(fourFactors.netPointsPer100)} pts / 100
+              </span>
+            </div>
+            <p className="muted">
+              Season over {fourFactors.games} games and the last {fourFactors.rollingGames}. Opponent rates come from the scouting CSV's four-factor columns,
+              then their ratings, then league average, as marked; each edge is shown as the tournament scenario delta worth the same points.
+              Our free-throw rate is not adjusted for their defense.
+            </p>
+            <table>
+              <thead>
+                <tr>
+                  <th>Factor</th>
+                  <th>Season</th>
+                  <th>Last {fourFactors.rollingGames}</th>
+                  <th>Us in matchup</th>
+                  <th>{fourFactors.opponent}</th>
+                  <th>Edge</th>
+                  <th>Pts / 100</th>
+                  <th>Scenario equivalent</th>
+                </tr>
+              </thead>
+              <tbody>
+                {fourFactors.rows.map((row) => (
+                  <tr key={row.factor}>
+                    <td>{FOUR_FACTOR_LABELS[row.factor]}</td>
+                    <td>{formatRate(row.season)}</td>
+                    <td>{formatRate(row.rolling)}</td>
+                    <td>{formatRate(row.matchup)}</td>
+                    <td>
+                      {formatRate(row.opponent)}
+                      {row.opponentSource !== 'scouted' && (
+                        <span className="muted"> · {FOUR_FACTOR_SOURCE_LABELS[row.opponentSource]}</span>
+                      )}
+                    </td>
+                    <td className={row.edge === null ? '' : row.edge >= 0 ? 'delta-up' : 'delta-down'}>
+                      {row.edge === null ? '—' : `${row.edge >= 0 ? 'Gain' : 'Lose'} ${formatRate(Math.abs(row.edge))}`}
+                    </td>
+                    <td>{row.pointsPer100 === null ? '—' : formatSigned(row.pointsPer100)}</td>
+                    <td>
+                      {row.scenarioDelta === null
+                        ? 'Add freeThrowRate to the game log'
+                        : `${SCENARIO_FACTOR_LABELS[row.scenarioFactor]} ${formatSigned(row.scenarioDelta)}`}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </section>
+
           <section className="chart-grid">
             <article className="card chart-card">
               <h2>Plan Risk Distribution</h2>
               <div className="chart-box">
                 <ResponsiveContainer width="100%" height="100%">
-                  <BarChart data={activePlan.distribution}>
+                  <BarChart data={activePlan?.distribution ?? []}>
                     <CartesianGrid strokeDasharray="3 3" stroke="#d4deee" />
                     <XAxis dataKey="range" stroke="#6b7d97" />
                     <YAxis stroke="#6b7d97" />
@@ -466,25 +2111,51 @@ function App() {
             </article>
 
             <article className="card chart-card">
-              <h2>Explainability (Sensitivity)</h2>
+              <div className="result-head">
+                <h2>Explainability (Tornado)</h2>
+                <label htmlFor="sweep-range" className="muted">
+                  ±{sweepRange}
+                </label>
+              </div>
+              <input
+                id="sweep-range"
+                type="range"
+                min={1}
+                max={10}
+                step={1}
+                value={sweepRange}
+                onChange={(event) => setSweepRange(Number(event.target.value))}
+              />
               <div className="chart-box">
                 <ResponsiveContainer width="100%" height="100%">
-                  <BarChart data={sensitivity}>
+                  <BarChart data={tornadoChart} layout="vertical">
                     <CartesianGrid strokeDasharray="3 3" stroke="#d4deee" />
-                    <XAxis dataKey="factor" stroke="#6b7d97" />
-                    <YAxis stroke="#6b7d97" />
+                    <XAxis type="number" stroke="#6b7d97" unit="%" />
+                    <YAxis type="category" dataKey="label" stroke="#6b7d97" width={72} />
                     <Tooltip />
-                    <Bar dataKey="deltaWinProbability" fill="#06b6d4" />
+                    <Legend />
+                    <Bar dataKey="low" name={`−${sweepRange}`} fill="#f43f5e" />
+                    <Bar dataKey="high" name={`+${sweepRange}`} fill="#06b6d4" />
                   </BarChart>
                 </ResponsiveContainer>
               </div>
+              <ul className="break-even-list">
+                {tornado.map((bar) => (
+                  <li key={bar.factor}>
+                    {bar.label}:{' '}
+                    {bar.breakEven === null
+                      ? `no coin flip within ±${BREAK_EVEN_REACH}`
+                      : `break-even at ${formatSigned(bar.breakEven)} (plan ${formatSigned(activeScenario[bar.factor])})`}
+                  </li>
+                ))}
+              </ul>
             </article>
 
             <article className="card chart-card">
               <h2>Recent Momentum</h2>
               <div className="chart-box">
                 <ResponsiveContainer width="100%" height="100%">
-                  <AreaChart data={gameLog}>
+                  <AreaChart data={games}>
                     <CartesianGrid strokeDasharray="3 3" stroke="#d4deee" />
                     <XAxis dataKey="game" stroke="#6b7d97" />
                     <YAxis stroke="#6b7d97" />
@@ -497,16 +2168,602 @@ function App() {
             </article>
           </section>
 
-          <section className="card finalize-card">
-            <div>
-              <h2>Selected Plan: {activePlan.label}</h2>
-              <p>
-                Score {activePlan.score} · Win {activePlan.winProbability}% · Monte Carlo {activePlan.monteWinRate}% · Expected Margin{' '}
-                {activePlan.expectedMargin}
+          <section className="card sweep-card">
+            <div className="result-head">
+              <h2>Explainability (Interaction Heatmap)</h2>
+              <div className="sweep-axes">
+                <label htmlFor="sweep-x">Across</label>
+                <select id="sweep-x" value={sweepAxes[0]} onChange={(event) => updateSweepAxis(0, event.target.value as ScenarioFactor)}>
+                  {SCENARIO_FACTORS.map((factor) => (
+                    <option key={factor} value={factor}>
+                      {SCENARIO_FACTOR_LABELS[factor]}
+                    </option>
+                  ))}
+                </select>
+                <label htmlFor="sweep-y">Down</label>
+                <select id="sweep-y" value={sweepAxes[1]} onChange={(event) => updateSweepAxis(1, event.target.value as ScenarioFactor)}>
+                  {SCENARIO_FACTORS.map((factor) => (
+                    <option key={factor} value={factor}>
+                      {SCENARIO_FACTOR_LABELS[factor]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+            <p className="muted">
+              Win probability with {SCENARIO_FACTOR_LABELS[sensitivityGrid.xFactor]} and{' '}
+              {SCENARIO_FACTOR_LABELS[sensitivityGrid.yFactor]} swept ±{sweepRange} around the plan (baseline{' '}
+              {sensitivityGrid.baseline}%). Outlined cells trace the 50% break-even line.
+            </p>
+            <div className="heatmap" role="table" aria-label="Sensitivity heatmap">
+              {sensitivityGrid.rows.map((row) => (
+                <div key={row[0].y} className="heatmap-row" role="row">
+                  <span className="heatmap-axis">{formatSigned(row[0].y)}</span>
+                  {row.map((cell) => (
+                    <span
+                      key={cell.x}
+                      className={`heatmap-cell ${cell.breakEven ? 'break-even' : ''} ${
+                        cell.x === activeScenario[sensitivityGrid.xFactor] && cell.y === activeScenario[sensitivityGrid.yFactor]
+                          ? 'current'
+                          : ''
+                      }`}
+                      style={{ background: `hsl(${Math.round((cell.winProbability / 100) * 130)}, 70%, 82%)` }}
+                      title={`${SCENARIO_FACTOR_LABELS[sensitivityGrid.xFactor]} ${formatSigned(cell.x)}, ${SCENARIO_FACTOR_LABELS[sensitivityGrid.yFactor]} ${formatSigned(cell.y)}`}
+                    >
+                      {cell.winProbability.toFixed(0)}
+                    </span>
+                  ))}
+                </div>
+              ))}
+              <div className="heatmap-row" role="row">
+                <span className="heatmap-axis" />
+                {sensitivityGrid.xValues.map((value) => (
+                  <span key={value} className="heatmap-axis">
+                    {formatSigned(value)}
+                  </span>
+                ))}
+              </div>
+            </div>
+          </section>
+
+          <section className="card rules-card">
+            <div className="result-head">
+              <h2>Tactical Rules</h2>
+              <span className="muted">
+                {recommendationRules.filter((rule) => rule.enabled).length} of {recommendationRules.length} enabled
+              </span>
+            </div>
+            <div className="rules-layout">
+              <div>
+                <p className="muted">Tactical actions for {activePlan?.label ?? 'the active plan'}</p>
+                <ul className="recommend-list">
+                  {recommendations.map((item) => (
+                    <li key={`${item.rule}-${item.title}`}>
+                      <div>
+                        <h4>{item.title}</h4>
+                        <p>{item.detail}</p>
+                        <span className="rule-tag">Rule: {item.rule}</span>
+                      </div>
+                      <strong>{item.impact}</strong>
+                    </li>
+                  ))}
+                </ul>
+                {recommendations.length === 0 && <p className="muted">No enabled rule fires for this plan.</p>}
+              </div>
+
+              <div>
+                <ul className="rule-list">
+                  {recommendationRules.map((rule) => (
+                    <li key={rule.id}>
+                      <label className="rule-toggle">
+                        <input type="checkbox" checked={rule.enabled} onChange={() => toggleRule(rule.id)} />
+                        <span>
+                          {rule.name}
+                          {rule.builtIn && <em className="muted"> · built-in</em>}
+                          <small className="muted">{describeRule(rule)}</small>
+                        </span>
+                      </label>
+                      <span className="archetype-actions">
+                        {!rule.builtIn && (
+                          <button type="button" onClick={() => setRuleDraft(ruleToDraft(rule, rule.id))}>
+                            Edit
+                          </button>
+                        )}
+                        <button
+                          type="button"
+                          onClick={() => setRuleDraft(ruleToDraft({ ...rule, name: `${rule.name} (copy)` }, null))}
+                        >
+                          Clone
+                        </button>
+                        {!rule.builtIn && (
+                          <button type="button" onClick={() => deleteRule(rule.id)}>
+                            Delete
+                          </button>
+                        )}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+
+                {ruleDraft ? (
+                  <div className="archetype-form">
+                    <label htmlFor="rule-name">Name</label>
+                    <input
+                      id="rule-name"
+                      type="text"
+                      value={ruleDraft.name}
+                      onChange={(event) => setRuleDraft({ ...ruleDraft, name: event.target.value })}
+                    />
+                    <label htmlFor="rule-scope">Fires</label>
+                    <select
+                      id="rule-scope"
+                      value={ruleDraft.scope}
+                      onChange={(event) => setRuleDraft({ ...ruleDraft, scope: event.target.value as RuleScope })}
+                    >
+                      {(Object.keys(ruleScopeLabels) as RuleScope[]).map((scope) => (
+                        <option key={scope} value={scope}>
+                          {ruleScopeLabels[scope]}
+                        </option>
+                      ))}
+                    </select>
+                    {ruleDraft.scope === 'mismatch' && (
+                      <div className="cap-grid">
+                        <label>
+                          Kind
+                          <select
+                            value={ruleDraft.mismatchKind}
+                            onChange={(event) =>
+                              setRuleDraft({ ...ruleDraft, mismatchKind: event.target.value as RuleDraft['mismatchKind'] })
+                            }
+                          >
+                            <option value="any">Any</option>
+                            <option value="size">Size</option>
+                            <option value="speed">Speed</option>
+                          </select>
+                        </label>
+                        <label>
+                          Favors
+                          <select
+                            value={ruleDraft.mismatchFavors}
+                            onChange={(event) =>
+                              setRuleDraft({ ...ruleDraft, mismatchFavors: event.target.value as RuleDraft['mismatchFavors'] })
+                            }
+                          >
+                            <option value="any">Either side</option>
+                            <option value="us">Us</option>
+                            <option value="them">Them</option>
+                          </select>
+                        </label>
+                      </div>
+                    )}
+
+                    <p className="muted">Conditions (all must hold)</p>
+                    {ruleDraft.conditions.map((condition, index) => (
+                      <div key={index} className="rule-condition">
+                        <select
+                          aria-label="Metric"
+                          value={condition.metric}
+                          onChange={(event) => updateRuleCondition(index, { metric: event.target.value as RuleMetric })}
+                        >
+                          {RULE_METRICS.map((metric) => (
+                            <option key={metric} value={metric}>
+                              {RULE_METRIC_LABELS[metric]}
+                            </option>
+                          ))}
+                        </select>
+                        <select
+                          aria-label="Comparison"
+                          value={condition.comparator}
+                          onChange={(event) => updateRuleCondition(index, { comparator: event.target.value as RuleComparator })}
+                        >
+                          {RULE_COMPARATORS.map((comparator) => (
+                            <option key={comparator} value={comparator}>
+                              {comparator}
+                            </option>
+                          ))}
+                        </select>
+                        <input
+                          aria-label="Threshold"
+                          type="number"
+                          step={0.5}
+                          value={condition.value}
+                          onChange={(event) => updateRuleCondition(index, { value: Number(event.target.value) || 0 })}
+                        />
+                        <button
+                          type="button"
+                          aria-label="Remove condition"
+                          onClick={() =>
+                            setRuleDraft({
+                              ...ruleDraft,
+                              conditions: ruleDraft.conditions.filter((_, position) => position !== index),
+                            })
+                          }
+                        >
+                          ×
+                        </button>
+                      </div>
+                    ))}
+                    <div className="pair-builder">
+                      <button
+                        type="button"
+                        onClick={() =>
+                          setRuleDraft({
+                            ...ruleDraft,
+                            conditions: [...ruleDraft.conditions, { metric: 'paceDelta', comparator: '>', value: 0 }],
+                          })
+                        }
+                      >
+                        Add Condition
+                      </button>
+                    </div>
+
+                    <label htmlFor="rule-title">Title</label>
+                    <input
+                      id="rule-title"
+                      type="text"
+                      value={ruleDraft.title}
+                      onChange={(event) => setRuleDraft({ ...ruleDraft, title: event.target.value })}
+                    />
+                    <label htmlFor="rule-detail">Detail</label>
+                    <textarea
+                      id="rule-detail"
+                      rows={2}
+                      value={ruleDraft.detail}
+                      onChange={(event) => setRuleDraft({ ...ruleDraft, detail: event.target.value })}
+                    />
+                    <p className="muted">
+                      Templates fill metric placeholders such as {'{paceDelta}'}; mismatch rules also fill {'{ourPlayer}'},{' '}
+                      {'{theirPlayer}'}, {'{position}'} and {'{detail}'}.
+                    </p>
+
+                    <p className="muted">Impact = base + scale × |metric|</p>
+                    <div className="cap-grid">
+                      <label>
+                        Metric
+                        <select
+                          value={ruleDraft.impact.metric ?? ''}
+                          onChange={(event) =>
+                            setRuleDraft({
+                              ...ruleDraft,
+                              impact: { ...ruleDraft.impact, metric: (event.target.value || null) as RuleMetric | null },
+                            })
+                          }
+                        >
+                          <option value="">None</option>
+                          {RULE_METRICS.map((metric) => (
+                            <option key={metric} value={metric}>
+                              {RULE_METRIC_LABELS[metric]}
+                            </option>
+                          ))}
+                        </select>
+                      </label>
+                      <label>
+                        Scale
+                        <input
+                          type="number"
+                          step={0.1}
+                          value={ruleDraft.impact.scale}
+                          onChange={(event) =>
+                            setRuleDraft({ ...ruleDraft, impact: { ...ruleDraft.impact, scale: Number(event.target.value) || 0 } })
+                          }
+                        />
+                      </label>
+                      <label>
+                        Base
+                        <input
+                          type="number"
+                          step={0.5}
+                          value={ruleDraft.impact.base}
+                          onChange={(event) =>
+                            setRuleDraft({ ...ruleDraft, impact: { ...ruleDraft.impact, base: Number(event.target.value) || 0 } })
+                          }
+                        />
+                      </label>
+                    </div>
+
+                    <div className="pair-builder">
+                      <button
+                        type="button"
+                        disabled={ruleDraft.name.trim().length === 0 || ruleDraft.title.trim().length === 0}
+                        onClick={saveRuleDraft}
+                      >
+                        {ruleDraft.id ? 'Save Changes' : 'Add Rule'}
+                      </button>
+                      <button type="button" onClick={() => setRuleDraft(null)}>
+                        Cancel
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="pair-builder">
+                    <button type="button" onClick={() => setRuleDraft(emptyRuleDraft)}>
+                      New Rule
+                    </button>
+                  </div>
+                )}
+              </div>
+            </div>
+          </section>
+
+          <section className="card lineup-options">
+            <h2>Lineup Options (Top {tournament.lineups.length})</h2>
+            {tournament.lineups.length === 0 ? (
+              <>
+                <p className="error-text">No lineup satisfies the current constraints.</p>
+                <ul className="row-errors">
+                  {(activePlan?.lineup.conflicts ?? []).map((conflict) => (
+                    <li key={conflict}>{conflict}</li>
+                  ))}
+                </ul>
+              </>
+            ) : (
+              <ol className="lineup-list">
+                {tournament.lineups.map((option, index) => (
+                  <li key={option.lineup.map((player) => player.id).join('-')}>
+                    <span>
+                      #{index + 1} · {option.lineup.map((player) => player.name).join(', ')}
+                    </span>
+                    <strong>
+                      {option.objective}
+                      {index > 0 && ` (${(option.objective - tournament.lineups[0].objective).toFixed(1)})`} · $
+                      {option.totalSalary.toLocaleString()}
+                    </strong>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </section>
+
+          {matchupReport.pairs.length > 0 && (
+            <section className="card lineup-options">
+              <h2>Matchups vs {opponentProfile?.name ?? 'Opponent'} Starters</h2>
+              <p className="muted">
+                Size = rebounds + 1.5 × blocks; speed = 2 × steals + 0.5 × assists. Positive edges favor {teamProfile.name}.
               </p>
+              <table>
+                <thead>
+                  <tr>
+                    <th>Pos</th>
+                    <th>{teamProfile.name}</th>
+                    <th>Opponent</th>
+                    <th>Size</th>
+                    <th>Speed</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {matchupReport.pairs.map((pair) => (
+                    <tr key={pair.ours.id}>
+                      <td>{pair.position}</td>
+                      <td>{pair.ours.name}</td>
+                      <td>
+                        {pair.theirs.name} ({pair.theirs.position})
+                      </td>
+                      <td className={Math.abs(pair.sizeEdge) >= SIZE_MISMATCH ? 'matchup-flag' : ''}>{formatSigned(pair.sizeEdge)}</td>
+                      <td className={Math.abs(pair.speedEdge) >= SPEED_MISMATCH ? 'matchup-flag' : ''}>{formatSigned(pair.speedEdge)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {matchupReport.mismatches.length > 0 && (
+                <ul className="matchup-notes">
+                  {matchupReport.mismatches.map((mismatch) => (
+                    <li key={`${mismatch.kind}-${mismatch.ourPlayer}`}>{mismatch.detail}</li>
+                  ))}
+                </ul>
+              )}
+            </section>
+          )}
+
+          {activeBoxScore && (
+            <section className="card lineup-options">
+              <h2>Simulated Box Score (per game)</h2>
+              <table>
+                <thead>
+                  <tr>
+                    <th>Stat</th>
+                    <th>{teamProfile.name}</th>
+                    <th>{opponentProfile?.name ?? 'League Average'}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {boxScoreRows.map((row) => (
+                    <tr key={row.label}>
+                      <td>{row.label}</td>
+                      <td>{row.pick(activeBoxScore.team)}</td>
+                      <td>{row.pick(activeBoxScore.opponent)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </section>
+          )}
+
+          <section className="card backtest-card">
+            <div className="result-head">
+              <h2>Win Model Track Record</h2>
+              {backtest && isBacktesting && <span className="muted">Replaying the latest game log…</span>}
             </div>
-            <button type="button" onClick={executePlan}>
-              Execute This Plan
+            {backtestError && <p className="error-text">Backtest failed: {backtestError}</p>}
+            {!backtest ? (
+              !backtestError && <p className="muted">Replaying the game log walk-forward…</p>
+            ) : (
+              <>
+                <p className="muted">
+                  {backtest.games.length} games replayed walk-forward: each is predicted from a profile built on the games before
+                  it{backtest.refit && ', with the fitted model refit on those games only'}. {backtest.scoutedGames} opponents
+                  matched a scouting row, the rest use League Average.
+                  {backtest.skippedGames > 0 &&
+                    ` The first ${backtest.skippedGames} games are skipped until ${MIN_FIT_GAMES} games of history allow a refit.`}
+                </p>
+                {backtest.games.length === 0 ? (
+                  <p>
+                    {backtest.skippedGames > 0
+                      ? `A fitted model needs more than ${MIN_FIT_GAMES} games in the log to score any game out of sample.`
+                      : 'Upload a game log to backtest the win model.'}
+                  </p>
+                ) : (
+                  <div className="results-grid">
+                    <div>
+                      <table>
+                        <thead>
+                          <tr>
+                            <th>Model</th>
+                            <th>Brier</th>
+                            <th>Log Loss</th>
+                            <th>Hit Rate</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {backtest.models.map((model) => (
+                            <tr key={model.model}>
+                              <td>{model.model}</td>
+                              <td>{model.brierScore}</td>
+                              <td>{model.logLoss}</td>
+                              <td>{model.accuracy}%</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                      <p className="muted">
+                        Mean absolute margin error <strong>{backtest.marginMeanAbsoluteError}</strong> points. A coin flip scores a
+                        Brier of 0.25 and a log loss of 0.693; lower is better.
+                      </p>
+                    </div>
+                    <div className="chart-box">
+                      <ResponsiveContainer width="100%" height="100%">
+                        <LineChart data={backtest.calibration}>
+                          <CartesianGrid strokeDasharray="3 3" stroke="#d4deee" />
+                          <XAxis dataKey="bucket" stroke="#6b7d97" />
+                          <YAxis stroke="#6b7d97" unit="%" domain={[0, 100]} />
+                          <Tooltip />
+                          <Legend />
+                          <Line dataKey="midpoint" name="Perfect calibration" stroke="#94a3b8" strokeDasharray="4 4" dot={false} />
+                          <Line dataKey="projected" name="Win projection" stroke="#2563eb" connectNulls />
+                          <Line dataKey="monte" name="Monte Carlo" stroke="#7c3aed" connectNulls />
+                        </LineChart>
+                      </ResponsiveContainer>
+                    </div>
+                  </div>
+                )}
+              </>
+            )}
+          </section>
+
+          <section className="card series-card">
+            <h2>Playoff Series (Best of 7)</h2>
+            <div className="series-controls">
+              <label htmlFor="series-home">
+                Home court
+                <select
+                  id="series-home"
+                  value={seriesHomeCourt ? 'ours' : 'theirs'}
+                  onChange={(event) => setSeriesHomeCourt(event.target.value === 'ours')}
+                >
+                  <option value="ours">{teamProfile.name} (games 1, 2, 5, 7 at home)</option>
+                  <option value="theirs">{opponentProfile?.name ?? 'Opponent'} (games 3, 4, 6 at home)</option>
+                </select>
+              </label>
+              <label htmlFor="series-injury">
+                Injury recurrence per starter per game (%)
+                <input
+                  id="series-injury"
+                  type="number"
+                  min={0}
+                  max={25}
+                  step={1}
+                  value={injuryRecurrence}
+                  onChange={(event) => setInjuryRecurrence(Math.min(25, Math.max(0, Number(event.target.value) || 0)))}
+                />
+              </label>
+              <button type="button" disabled={series.isRunning} onClick={() => series.run(seriesInput)}>
+                {series.isRunning ? 'Simulating Series…' : 'Simulate Series'}
+              </button>
+            </div>
+
+            {series.error && <p className="error-text">{series.error}</p>}
+            {seriesStale && !series.isRunning && (
+              <p className="muted">Inputs changed since this series run; simulate again to refresh.</p>
+            )}
+
+            {series.summary && series.summary.conflicts.length > 0 && (
+              <ul className="row-errors">
+                {series.summary.conflicts.map((conflict) => (
+                  <li key={conflict}>{conflict}</li>
+                ))}
+              </ul>
+            )}
+
+            {series.summary && series.summary.games.length > 0 && (
+              <div className="results-grid">
+                <div>
+                  <div className="blueprint-metrics">
+                    <p>
+                      Series Win <strong>{series.summary.seriesWinProbability}%</strong>
+                    </p>
+                    <p>
+                      Expected Length <strong>{series.summary.expectedGames} games</strong>
+                    </p>
+                  </div>
+                  <div className="chart-box">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <BarChart data={series.summary.lengthDistribution}>
+                        <CartesianGrid strokeDasharray="3 3" stroke="#d4deee" />
+                        <XAxis dataKey="games" stroke="#6b7d97" tickFormatter={(games: number) => `${games} games`} />
+                        <YAxis stroke="#6b7d97" unit="%" />
+                        <Tooltip />
+                        <Bar dataKey="wins" name="Win in" stackId="length" fill="#16a34a" />
+                        <Bar dataKey="losses" name="Lose in" stackId="length" fill="#dc2626" />
+                      </BarChart>
+                    </ResponsiveContainer>
+                  </div>
+                </div>
+                <table>
+                  <thead>
+                    <tr>
+                      <th>Game</th>
+                      <th>Venue</th>
+                      <th>Plan</th>
+                      <th>Win %</th>
+                      <th>Margin</th>
+                      <th>Fatigue</th>
+                      <th>Played</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {series.summary.games.map((game) => (
+                      <tr key={game.game} title={game.lineup.map((player) => player.name).join(', ')}>
+                        <td>{game.game}</td>
+                        <td>{game.home ? 'Home' : 'Away'}</td>
+                        <td>{game.label}</td>
+                        <td>{game.winProbability}%</td>
+                        <td>{formatSigned(game.expectedMargin)}</td>
+                        <td>{game.averageFatigue}%</td>
+                        <td>{game.reachProbability}%</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </section>
+
+          <section className="card finalize-card">
+            {activePlan ? (
+              <div>
+                <h2>Selected Plan: {activePlan.label}</h2>
+                <p>
+                  Score {activePlan.score} · Win {activePlan.winProbability}% · Monte Carlo {activePlan.monteWinRate}% · Expected
+                  Margin {activePlan.expectedMargin}
+                </p>
+              </div>
+            ) : (
+              <div>
+                <h2>Selected Plan: evaluating…</h2>
+                <p>Preliminary numbers appear as soon as the first simulation pass finishes.</p>
+              </div>
+            )}
+            <button type="button" disabled={activePlan?.status !== 'final'} onClick={executePlan}>
+              {activePlan?.status === 'final' ? 'Execute This Plan' : 'Waiting for Full Simulation'}
             </button>
           </section>
         </>
@@ -540,6 +2797,34 @@ function App() {
                       Risk Index <strong>{lockedPlan.riskIndex}</strong>
                     </p>
                   </div>
+                  <div className="seed-row">
+                    <p className="muted">Simulation seed {lockedPlan.seed}</p>
+                    <button
+                      type="button"
+                      disabled={lockedPlan.seed === simulationSeed}
+                      onClick={() => setSimulationSeed(lockedPlan.seed)}
+                    >
+                      {lockedPlan.seed === simulationSeed ? 'Seed Pinned' : 'Pin This Seed'}
+                    </button>
+                  </div>
+                  <div className="export-actions">
+                    <button type="button" onClick={() => downloadPlanExport(lockedPlan, 'markdown')}>
+                      Markdown
+                    </button>
+                    <button type="button" onClick={() => downloadPlanExport(lockedPlan, 'json')}>
+                      JSON
+                    </button>
+                    <button type="button" onClick={() => downloadPlanExport(lockedPlan, 'html')}>
+                      HTML
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setExportError(printPlan(lockedPlan) ? '' : 'Allow pop-ups to open the print view.')}
+                    >
+                      Print
+                    </button>
+                  </div>
+                  {exportError && <p className="error-text">{exportError}</p>}
                   <ul className="lineup-list">
                     {lockedPlan.lineup.map((player) => (
                       <li key={player.id}>
@@ -560,6 +2845,7 @@ function App() {
                         <div>
                           <h4>{item.title}</h4>
                           <p>{item.detail}</p>
+                          {item.rule && <span className="rule-tag">Rule: {item.rule}</span>}
                         </div>
                         <strong>{item.impact}</strong>
                       </li>
@@ -568,12 +2854,133 @@ function App() {
                 </article>
               </section>
 
+              {lockedPlan.availabilityImpact.length > 0 && (
+                <section className="card rotation-card">
+                  <h2>Availability Dependence</h2>
+                  <p className="muted">
+                    Monte Carlo win rate in the runs where each uncertain player suits up versus sits; when a starter sits, the
+                    lineup is re-optimized without them.
+                  </p>
+                  <table>
+                    <thead>
+                      <tr>
+                        <th>Player</th>
+                        <th>Status</th>
+                        <th>Win if plays</th>
+                        <th>Win if sits</th>
+                        <th>Swing</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {[...lockedPlan.availabilityImpact]
+                        .sort((left, right) => Math.abs(right.swing) - Math.abs(left.swing))
+                        .map((item) => (
+                          <tr key={item.playerId}>
+                            <td>{item.name}</td>
+                            <td>{availabilityLabels[availabilityStatus(item.playProbability)]}</td>
+                            <td>{item.winIfPlays}%</td>
+                            <td>{item.winIfSits}%</td>
+                            <td>{formatSigned(item.swing)}</td>
+                          </tr>
+                        ))}
+                    </tbody>
+                  </table>
+                </section>
+              )}
+
+              {rotationError && <p className="error-text">Rotation planning failed: {rotationError}</p>}
+              {!rotation && isPlanningRotation && <p className="muted">Planning the 48-minute rotation…</p>}
+              {rotation && (
+                <section className="card rotation-card">
+                  <div className="result-head">
+                    <h2>48-Minute Rotation</h2>
+                    <span className="muted">
+                      {isPlanningRotation
+                        ? 'Updating for the latest plan…'
+                        : `${SEGMENT_MINUTES}-minute windows · average on-court efficiency ${rotation.averageEfficiency}%`}
+                    </span>
+                  </div>
+                  {rotation.conflicts.map((conflict) => (
+                    <p key={conflict} className="error-text">
+                      {conflict}
+                    </p>
+                  ))}
+                  {rotation.segments.length > 0 && (
+                    <>
+                      <div className="rotation-timeline" role="table" aria-label="Rotation timeline">
+                        <div className="rotation-row rotation-head" role="row">
+                          <span>Player</span>
+                          {rotation.segments.map((segment) => (
+                            <span key={segment.start} className={segment.start % QUARTER_MINUTES === 0 ? 'quarter-start' : ''}>
+                              {segment.start % QUARTER_MINUTES === 0 ? `Q${segment.quarter}` : ''}
+                            </span>
+                          ))}
+                          <span>Min / Target</span>
+                        </div>
+                        {rotation.players.map((player) => (
+                          <div key={player.id} className="rotation-row" role="row">
+                            <span>
+                              {player.name} • {player.position}
+                            </span>
+                            {rotation.segments.map((segment) => (
+                              <span
+                                key={segment.start}
+                                className={`rotation-cell ${segment.playerIds.includes(player.id) ? 'on' : ''} ${segment.start % QUARTER_MINUTES === 0 ? 'quarter-start' : ''}`}
+                                title={`${formatGameClock(segment.start)} · ${segment.playerIds.includes(player.id) ? 'on court' : 'bench'}`}
+                              />
+                            ))}
+                            <span>
+                              {player.plannedMinutes} / {player.targetMinutes}
+                              {player.plannedMinutes > 0 && <em> · {player.averageEfficiency}%</em>}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                      <div className="results-grid">
+                        <div className="chart-box">
+                          <ResponsiveContainer width="100%" height="100%">
+                            <LineChart data={rotationChart}>
+                              <CartesianGrid strokeDasharray="3 3" stroke="#d4deee" />
+                              <XAxis dataKey="clock" stroke="#6b7d97" />
+                              <YAxis yAxisId="net" stroke="#6b7d97" />
+                              <YAxis yAxisId="efficiency" orientation="right" stroke="#6b7d97" unit="%" domain={[60, 100]} />
+                              <Tooltip />
+                              <Legend />
+                              <Line yAxisId="net" dataKey="netRating" name="Group net rating" stroke="#2563eb" />
+                              <Line yAxisId="efficiency" dataKey="efficiency" name="Efficiency" stroke="#f59e0b" strokeDasharray="4 4" />
+                            </LineChart>
+                          </ResponsiveContainer>
+                        </div>
+                        <table>
+                          <thead>
+                            <tr>
+                              <th>On-court group</th>
+                              <th>Min</th>
+                              <th>Net</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {rotation.groups.map((group) => (
+                              <tr key={group.playerIds.join('|')}>
+                                <td>{group.names.join(', ')}</td>
+                                <td>{group.minutes}</td>
+                                <td>{formatSigned(group.netRating)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    </>
+                  )}
+                </section>
+              )}
+
               <section className="results-grid">
                 <article className="card chart-card">
                   <div className="result-head">
                     <h2>Lineup Player Radar</h2>
                     <select value={selectedPlayerId} onChange={(event) => setSelectedPlayerId(event.target.value)}>
-                      {players.map((player) => (
+                      {roster.map((player) => (
                         <option key={player.id} value={player.id}>
                           {player.name}
                         </option>
@@ -594,6 +3001,10 @@ function App() {
 
                 <article className="card">
                   <h2>Anomaly Watch</h2>
+                  <p className="muted">
+                    Pace, eFG%, turnovers, rebounding and margin against the median of the previous {ROLLING_WINDOW} games,
+                    adjusted for scouted opponents; flagged at {OUTLIER_THRESHOLD}σ.
+                  </p>
                   <ul className="anomaly-list">
                     {anomalyFeed.map((item) => (
                       <li key={item.game}>
@@ -601,16 +3012,171 @@ function App() {
                           <strong>
                             {item.game} vs {item.opponent}
                           </strong>
-                          <p>{item.label}</p>
+                          <p>
+                            {item.label}
+                            {item.opponentAdjusted ? ' · opponent-adjusted' : ' · opponent not scouted'}
+                          </p>
+                          <ul className="anomaly-drivers">
+                            {item.drivers.map((driver) => (
+                              <li key={driver.factor} title={`${driver.value} vs ${driver.expected} expected`}>
+                                {driver.explanation}
+                              </li>
+                            ))}
+                          </ul>
                         </div>
                         <em>{item.anomalyScore}</em>
                       </li>
                     ))}
                   </ul>
+                  {anomalyFeed.length === 0 && <p className="muted">No game breaks from its baseline.</p>}
                 </article>
               </section>
             </>
           )}
+
+          {planHistory.length > 0 && (
+            <section className="card plan-history">
+              <h2>Plan History</h2>
+              <ul className="lineup-list">
+                {planHistory.map((plan) => (
+                  <li key={plan.snapshotId} className={plan.snapshotId === lockedPlanId ? 'current' : ''}>
+                    <span>
+                      {describePlan(plan)} · Win {plan.winProbability}% · MC {plan.monteWinRate}%
+                    </span>
+                    <span className="archetype-actions">
+                      <button type="button" disabled={plan.snapshotId === lockedPlanId} onClick={() => setLockedPlanId(plan.snapshotId)}>
+                        View
+                      </button>
+                      <button type="button" onClick={() => restorePlan(plan)}>
+                        Restore
+                      </button>
+                      <button type="button" onClick={() => deletePlan(plan.snapshotId)}>
+                        Delete
+                      </button>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          )}
+
+          {planHistory.length >= 2 && compareIds && (
+            <section className="card plan-history">
+              <h2>Compare Plans</h2>
+              <div className="pair-builder">
+                <select
+                  aria-label="Baseline plan"
+                  value={compareIds[0]}
+                  onChange={(event) => setComparePlanIds([event.target.value, compareIds[1]])}
+                >
+                  {planHistory.map((plan) => (
+                    <option key={plan.snapshotId} value={plan.snapshotId}>
+                      {describePlan(plan)}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  aria-label="Comparison plan"
+                  value={compareIds[1]}
+                  onChange={(event) => setComparePlanIds([compareIds[0], event.target.value])}
+                >
+                  {planHistory.map((plan) => (
+                    <option key={plan.snapshotId} value={plan.snapshotId}>
+                      {describePlan(plan)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {planComparison && (
+                <div className="results-grid">
+                  <div>
+                    <table>
+                      <thead>
+                        <tr>
+                          <th>Metric</th>
+                          <th>Baseline</th>
+                          <th>Comparison</th>
+                          <th>Δ</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {planComparison.metrics.map((row) => (
+                          <tr key={row.label}>
+                            <td>{row.label}</td>
+                            <td>{row.left}</td>
+                            <td>{row.right}</td>
+                            <td className={row.delta > 0 ? 'delta-up' : row.delta < 0 ? 'delta-down' : ''}>
+                              {formatSigned(row.delta)}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+
+                    {planComparison.settingChanges.length > 0 && (
+                      <table>
+                        <thead>
+                          <tr>
+                            <th>Setting</th>
+                            <th>Baseline</th>
+                            <th>Comparison</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {planComparison.settingChanges.map((change) => (
+                            <tr key={change.label}>
+                              <td>{change.label}</td>
+                              <td>{change.left}</td>
+                              <td>{change.right}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                  </div>
+
+                  <div>
+                    <h4>Lineup changes</h4>
+                    <ul className="rule-list">
+                      {planComparison.lineupAdded.map((player) => (
+                        <li key={`in-${player.id}`} className="delta-up">
+                          + {player.name} • {player.position}
+                        </li>
+                      ))}
+                      {planComparison.lineupRemoved.map((player) => (
+                        <li key={`out-${player.id}`} className="delta-down">
+                          − {player.name} • {player.position}
+                        </li>
+                      ))}
+                      {planComparison.lineupAdded.length === 0 && planComparison.lineupRemoved.length === 0 && (
+                        <li>Same five players</li>
+                      )}
+                    </ul>
+
+                    <h4>Recommendations</h4>
+                    <ul className="rule-list">
+                      {planComparison.recommendationsOnlyRight.map((item) => (
+                        <li key={`new-${item.title}`} className="delta-up">
+                          + {item.title} ({item.impact})
+                        </li>
+                      ))}
+                      {planComparison.recommendationsOnlyLeft.map((item) => (
+                        <li key={`old-${item.title}`} className="delta-down">
+                          − {item.title} ({item.impact})
+                        </li>
+                      ))}
+                      {planComparison.recommendationsShared.map((item) => (
+                        <li key={`both-${item.title}`}>
+                          = {item.title} ({item.leftImpact} → {item.rightImpact})
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                </div>
+              )}
+            </section>
+          )}
         </>
       )}
     </div>
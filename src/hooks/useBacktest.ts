@@ -0,0 +1,59 @@
+import { useEffect, useRef, useState } from 'react'
+import type { BacktestInput, BacktestRequest, BacktestResponse } from '../lib/backtest'
+import type { BacktestReport } from '../types'
+
+type BacktestResult = {
+  runId: number
+  report: BacktestReport | null
+  error: string
+}
+
+// Replays the game log off the main thread whenever the input changes. The previous report stays on
+// screen until the new one arrives, and replays superseded by a newer input are ignored.
+export const useBacktest = (input: BacktestInput) => {
+  const workerRef = useRef<Worker | null>(null)
+  const latestRunIdRef = useRef(0)
+  const [request, setRequest] = useState({ input, runId: 1 })
+  const [result, setResult] = useState<BacktestResult>({ runId: 0, report: null, error: '' })
+
+  if (request.input !== input) {
+    setRequest({ input, runId: request.runId + 1 })
+  }
+
+  useEffect(() => {
+    const worker = new Worker(new URL('../workers/backtest.worker.ts', import.meta.url), { type: 'module' })
+    workerRef.current = worker
+
+    worker.onmessage = (event: MessageEvent<BacktestResponse>) => {
+      const message = event.data
+      if (message.runId !== latestRunIdRef.current) {
+        return
+      }
+
+      setResult((current) =>
+        message.type === 'result'
+          ? { runId: message.runId, report: message.report, error: '' }
+          : { ...current, runId: message.runId, error: message.message },
+      )
+    }
+
+    return () => {
+      worker.terminate()
+      workerRef.current = null
+    }
+  }, [])
+
+  useEffect(() => {
+    latestRunIdRef.current = request.runId
+    const message: BacktestRequest = { type: 'run', runId: request.runId, input: request.input }
+    workerRef.current?.postMessage(message)
+  }, [request])
+
+  const isCurrentRun = result.runId === request.runId
+
+  return {
+    report: result.report,
+    isRunning: !isCurrentRun,
+    error: isCurrentRun ? result.error : '',
+  }
+}
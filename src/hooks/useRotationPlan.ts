@@ -0,0 +1,61 @@
+import { useEffect, useRef, useState } from 'react'
+import type { RotationInput, RotationRequest, RotationResponse } from '../lib/rotation'
+import type { RotationPlan } from '../types'
+
+type RotationResult = {
+  runId: number
+  plan: RotationPlan | null
+  error: string
+}
+
+// Plans the rotation off the main thread whenever the input changes; a null input clears it. The
+// previous plan stays on screen until the new one arrives.
+export const useRotationPlan = (input: RotationInput | null) => {
+  const workerRef = useRef<Worker | null>(null)
+  const latestRunIdRef = useRef(0)
+  const [request, setRequest] = useState({ input, runId: 1 })
+  const [result, setResult] = useState<RotationResult>({ runId: 0, plan: null, error: '' })
+
+  if (request.input !== input) {
+    setRequest({ input, runId: request.runId + 1 })
+  }
+
+  useEffect(() => {
+    const worker = new Worker(new URL('../workers/rotation.worker.ts', import.meta.url), { type: 'module' })
+    workerRef.current = worker
+
+    worker.onmessage = (event: MessageEvent<RotationResponse>) => {
+      const message = event.data
+      if (message.runId !== latestRunIdRef.current) {
+        return
+      }
+
+      setResult((current) =>
+        message.type === 'result'
+          ? { runId: message.runId, plan: message.plan, error: '' }
+          : { ...current, runId: message.runId, error: message.message },
+      )
+    }
+
+    return () => {
+      worker.terminate()
+      workerRef.current = null
+    }
+  }, [])
+
+  useEffect(() => {
+    latestRunIdRef.current = request.runId
+    if (request.input) {
+      const message: RotationRequest = { type: 'run', runId: request.runId, input: request.input }
+      workerRef.current?.postMessage(message)
+    }
+  }, [request])
+
+  const isCurrentRun = result.runId === request.runId
+
+  return {
+    plan: request.input ? result.plan : null,
+    isPlanning: request.input !== null && !isCurrentRun,
+    error: request.input && isCurrentRun ? result.error : '',
+  }
+}
@@ -0,0 +1,49 @@
+import { useEffect, useRef, useState } from 'react'
+import type { SeriesInput, SeriesRequest, SeriesResponse } from '../lib/series'
+import type { SeriesSummary } from '../types'
+
+type SeriesState = {
+  input: SeriesInput | null
+  summary: SeriesSummary | null
+  isRunning: boolean
+  error: string
+}
+
+// Series runs are started on demand; a new run supersedes any result still in flight.
+export const useSeriesSimulation = () => {
+  const workerRef = useRef<Worker | null>(null)
+  const latestRunIdRef = useRef(0)
+  const [state, setState] = useState<SeriesState>({ input: null, summary: null, isRunning: false, error: '' })
+
+  useEffect(() => {
+    const worker = new Worker(new URL('../workers/series.worker.ts', import.meta.url), { type: 'module' })
+    workerRef.current = worker
+
+    worker.onmessage = (event: MessageEvent<SeriesResponse>) => {
+      const message = event.data
+      if (message.runId !== latestRunIdRef.current) {
+        return
+      }
+
+      setState((current) =>
+        message.type === 'result'
+          ? { ...current, summary: message.summary, isRunning: false, error: '' }
+          : { ...current, isRunning: false, error: message.message },
+      )
+    }
+
+    return () => {
+      worker.terminate()
+      workerRef.current = null
+    }
+  }, [])
+
+  const run = (input: SeriesInput) => {
+    latestRunIdRef.current += 1
+    const message: SeriesRequest = { type: 'run', runId: latestRunIdRef.current, input }
+    setState((current) => ({ ...current, input, isRunning: true, error: '' }))
+    workerRef.current?.postMessage(message)
+  }
+
+  return { ...state, run }
+}
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest'
+import { collectTournamentCandidates, type TournamentEntry } from './useStrategyTournament'
+import { OPTIMIZED_CANDIDATE_ID, optimizeStrategy } from '../lib/optimizer'
+import {
+  evaluateStrategyCandidate,
+  OPTIMIZER_MAX_EVALUATIONS,
+  rankTournamentLineups,
+  tournamentStepCount,
+} from '../lib/tournament'
+import { createTournamentInput, testArchetypes } from '../test/fixtures'
+
+describe('collectTournamentCandidates', () => {
+  const input = createTournamentInput()
+  const { best: lineup, availability } = rankTournamentLineups(input)
+  const entry = (candidate: ReturnType<typeof evaluateStrategyCandidate>, runId: number, preliminary = false): TournamentEntry => ({
+    ...candidate,
+    runId,
+    preliminary,
+  })
+
+  it('lists the Optimized candidate after the archetypes', () => {
+    const archetypeEntries = testArchetypes.map((archetype) => evaluateStrategyCandidate(input, archetype, lineup, availability, 400))
+    const optimized = optimizeStrategy(input, lineup, availability, archetypeEntries[0].scenario, 400, 400).candidate
+    const entries = Object.fromEntries(
+      [...archetypeEntries, optimized].map((candidate) => [candidate.id, entry(candidate, 3)]),
+    )
+
+    const candidates = collectTournamentCandidates(testArchetypes, entries, 3)
+
+    expect(candidates.map((candidate) => candidate.id)).toEqual([...testArchetypes.map((archetype) => archetype.id), OPTIMIZED_CANDIDATE_ID])
+    expect(candidates.every((candidate) => candidate.status === 'final')).toBe(true)
+  })
+
+  it('marks entries from older runs stale and skips archetypes without results', () => {
+    const candidate = evaluateStrategyCandidate(input, testArchetypes[0], lineup, availability, 400)
+    const candidates = collectTournamentCandidates(testArchetypes, { [candidate.id]: entry(candidate, 1, true) }, 2)
+
+    expect(candidates).toHaveLength(1)
+    expect(candidates[0].status).toBe('stale')
+  })
+
+  it('counts both archetype passes, the optimizer search budget and its final run', () => {
+    expect(tournamentStepCount(testArchetypes.length)).toBe(4 + OPTIMIZER_MAX_EVALUATIONS + 1)
+  })
+})
@@ -0,0 +1,147 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { OPTIMIZED_CANDIDATE_ID } from '../lib/optimizer'
+import {
+  tournamentStepCount,
+  type TournamentInput,
+  type TournamentRequest,
+  type TournamentResponse,
+} from '../lib/tournament'
+import type { LineupResult, StrategyArchetype, StrategyCandidate } from '../types'
+
+export type CandidateStatus = 'final' | 'preliminary' | 'stale'
+
+export type TournamentCandidate = StrategyCandidate & {
+  status: CandidateStatus
+}
+
+export type TournamentEntry = StrategyCandidate & { runId: number; preliminary: boolean }
+
+type TournamentResults = {
+  runId: number
+  entries: Record<string, TournamentEntry>
+  explored: TournamentEntry[]
+  lineups: LineupResult[]
+  completed: number
+  total: number
+  done: boolean
+  error: string
+}
+
+const toTournamentCandidate = (entry: TournamentEntry, runId: number): TournamentCandidate => {
+  const { runId: entryRunId, preliminary, ...candidate } = entry
+  const status: CandidateStatus = entryRunId !== runId ? 'stale' : preliminary ? 'preliminary' : 'final'
+  return { ...candidate, status }
+}
+
+/** Candidates in display order: the archetypes as configured, then the Optimized candidate once it arrives. */
+export const collectTournamentCandidates = (
+  archetypes: StrategyArchetype[],
+  entries: Record<string, TournamentEntry>,
+  runId: number,
+) =>
+  [...archetypes.map((archetype) => archetype.id), OPTIMIZED_CANDIDATE_ID].flatMap((id): TournamentCandidate[] => {
+    const entry = entries[id]
+    return entry ? [toTournamentCandidate(entry, runId)] : []
+  })
+
+export const useStrategyTournament = (input: TournamentInput) => {
+  const workerRef = useRef<Worker | null>(null)
+  const latestRunIdRef = useRef(0)
+  const [request, setRequest] = useState({ input, runId: 1 })
+  const [results, setResults] = useState<TournamentResults>({
+    runId: 0,
+    entries: {},
+    explored: [],
+    lineups: [],
+    completed: 0,
+    total: 0,
+    done: false,
+    error: '',
+  })
+
+  // A new input object starts a new run; older runs are cancelled by id on both sides of the worker boundary.
+  if (request.input !== input) {
+    setRequest({ input, runId: request.runId + 1 })
+  }
+
+  useEffect(() => {
+    const worker = new Worker(new URL('../workers/tournament.worker.ts', import.meta.url), { type: 'module' })
+    workerRef.current = worker
+
+    worker.onmessage = (event: MessageEvent<TournamentResponse>) => {
+      const message = event.data
+      if (message.runId !== latestRunIdRef.current) {
+        return
+      }
+
+      setResults((current) => {
+        const base =
+          current.runId === message.runId
+            ? current
+            : { ...current, runId: message.runId, completed: 0, total: 0, done: false, error: '' }
+
+        if (message.type === 'lineups') {
+          return { ...base, lineups: message.lineups }
+        }
+
+        if (message.type === 'progress') {
+          return { ...base, completed: message.completed, total: message.total }
+        }
+
+        if (message.type === 'explored') {
+          return { ...base, explored: message.trials.map((trial) => ({ ...trial, runId: message.runId })) }
+        }
+
+        if (message.type === 'done') {
+          return { ...base, done: true }
+        }
+
+        if (message.type === 'error') {
+          return { ...base, done: true, error: message.message }
+        }
+
+        return {
+          ...base,
+          completed: message.completed,
+          total: message.total,
+          entries: {
+            ...base.entries,
+            [message.candidate.id]: { ...message.candidate, runId: message.runId, preliminary: message.preliminary },
+          },
+        }
+      })
+    }
+
+    return () => {
+      worker.terminate()
+      workerRef.current = null
+    }
+  }, [])
+
+  useEffect(() => {
+    latestRunIdRef.current = request.runId
+    const message: TournamentRequest = { type: 'run', runId: request.runId, input: request.input }
+    workerRef.current?.postMessage(message)
+  }, [request])
+
+  const candidates = useMemo(
+    () => collectTournamentCandidates(request.input.archetypes, results.entries, request.runId),
+    [request, results.entries],
+  )
+  const explored = useMemo(
+    () => results.explored.map((entry) => toTournamentCandidate(entry, request.runId)),
+    [request.runId, results.explored],
+  )
+
+  const isCurrentRun = results.runId === request.runId
+
+  return {
+    candidates,
+    explored,
+    lineups: results.lineups,
+    isRunning: !isCurrentRun || !results.done,
+    completed: isCurrentRun ? results.completed : 0,
+    total: isCurrentRun ? results.total : tournamentStepCount(request.input.archetypes.length),
+    error: isCurrentRun ? results.error : '',
+  }
+}
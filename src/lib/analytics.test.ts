@@ -0,0 +1,291 @@
+import { describe, expect, it } from 'vitest'
+import {
+  createSeededRandom,
+  explainLineupInfeasibility,
+  flexSlotPositions,
+  gameMarginSpread,
+  LEAGUE_AVERAGE_PACE,
+  LEAGUE_AVERAGE_RATING,
+  lineupObjective,
+  MARGIN_STANDARD_DEVIATION,
+  playerPositions,
+  projectGameTempo,
+  projectMatchupWinProbability,
+  rankLineups,
+  runMonteCarloSimulation,
+  simulatePossessionGames,
+  validateRosterRows,
+} from './analytics'
+import { teamProfile } from '../data/mockData'
+import { balancedConstraints, createPlayerPool } from '../test/fixtures'
+import type { FlexSlot, LineupConstraints, Player, Position } from '../types'
+
+const formationSlots = (constraints: LineupConstraints): Position[][] => [
+  ...Array.from({ length: constraints.guards }, (): Position[] => ['G']),
+  ...Array.from({ length: constraints.forwards }, (): Position[] => ['F']),
+  ...Array.from({ length: constraints.centers }, (): Position[] => ['C']),
+  ...(Object.entries(constraints.flexSlots) as [FlexSlot, number][]).flatMap(([slot, count]) =>
+    Array.from({ length: count }, () => flexSlotPositions[slot]),
+  ),
+]
+
+// Tries every slot for every player; only usable on small groups.
+const fitsByPermutation = (group: Player[], slots: Position[][], used = slots.map(() => false), index = 0): boolean =>
+  index === group.length ||
+  slots.some((slot, slotIndex) => {
+    if (used[slotIndex] || !slot.some((position) => playerPositions(group[index]).includes(position))) {
+      return false
+    }
+    used[slotIndex] = true
+    const fits = fitsByPermutation(group, slots, used, index + 1)
+    used[slotIndex] = false
+    return fits
+  })
+
+/** Every five-player combination, filtered by each rule directly. */
+const bruteForceObjectives = (pool: Player[], budget: number, constraints: LineupConstraints, topK: number) => {
+  const available = pool.filter(
+    (player) => !constraints.excludedPlayerIds.includes(player.id) && player.minutes >= constraints.minMinutes,
+  )
+  const slots = formationSlots(constraints)
+  const objectives: number[] = []
+
+  const choose = (start: number, group: Player[]) => {
+    if (group.length === 5) {
+      const ids = new Set(group.map((player) => player.id))
+      const salaryAt = (position?: Position) =>
+        group.filter((player) => !position || player.position === position).reduce((sum, player) => sum + player.salary, 0)
+      const valid =
+        salaryAt() <= budget &&
+        constraints.lockedPlayerIds.every((id) => ids.has(id)) &&
+        constraints.togetherPairs.every(([left, right]) => ids.has(left) === ids.has(right)) &&
+        constraints.apartPairs.every(([left, right]) => !(ids.has(left) && ids.has(right))) &&
+        (['G', 'F', 'C'] as Position[]).every((position) => salaryAt(position) <= (constraints.positionSalaryCaps[position] ?? Infinity)) &&
+        fitsByPermutation(group, slots)
+      if (valid) {
+        objectives.push(Number(group.reduce((sum, player) => sum + lineupObjective(player), 0).toFixed(1)))
+      }
+      return
+    }
+    for (let index = start; index < available.length; index++) {
+      choose(index + 1, [...group, available[index]])
+    }
+  }
+
+  choose(0, [])
+  return objectives.sort((left, right) => right - left).slice(0, topK)
+}
+
+// Salaries track production, as on a real roster, so the budget decides between close lineups.
+const pricedPool = (count: number, seed: number) =>
+  createPlayerPool(count, seed).map((player, index) => ({
+    ...player,
+    salary: Math.round(lineupObjective(player) * (120 + ((index * 37) % 40))),
+    ...(index % 5 === 0 ? { eligiblePositions: ['G', 'F'] as Position[] } : {}),
+  }))
+
+const averageSalary = (pool: Player[]) => pool.reduce((sum, player) => sum + player.salary, 0) / pool.length
+
+describe('rankLineups', () => {
+  it('returns the top lineups in descending objective order', () => {
+    const pool = pricedPool(14, 3)
+    const lineups = rankLineups(pool, averageSalary(pool) * 5, balancedConstraints, 5)
+
+    expect(lineups).toHaveLength(5)
+    lineups.slice(1).forEach((lineup, index) => expect(lineup.objective).toBeLessThanOrEqual(lineups[index].objective))
+    expect(new Set(lineups.map((lineup) => lineup.lineup.map((player) => player.id).join()))).toHaveProperty('size', 5)
+  })
+
+  it('matches a brute-force search across formations, flex slots, locks, pairs and ceilings', () => {
+    const variants: Partial<LineupConstraints>[] = [
+      {},
+      { guards: 1, forwards: 1, flexSlots: { 'G/F': 1, UTIL: 1 } },
+      { guards: 1, forwards: 1, centers: 0, flexSlots: { 'F/C': 1, UTIL: 2 } },
+      { lockedPlayerIds: ['p4'] },
+      { togetherPairs: [['p2', 'p7']] },
+      { apartPairs: [['p1', 'p4']] },
+      { positionSalaryCaps: { G: 9000 }, minMinutes: 20 },
+      { excludedPlayerIds: ['p1', 'p2'], flexSlots: { UTIL: 1 }, centers: 0 },
+    ]
+
+    variants.forEach((variant, seed) => {
+      const pool = pricedPool(15, seed + 1)
+      const constraints = { ...balancedConstraints, ...variant }
+      const budget = averageSalary(pool) * 5.2
+      const objectives = rankLineups(pool, budget, constraints, 5).map((lineup) => lineup.objective)
+
+      expect(objectives).toEqual(bruteForceObjectives(pool, budget, constraints, 5))
+    })
+  })
+
+  it('seats flex-eligible players in flex slots', () => {
+    const pool = pricedPool(12, 9).map((player) => (player.position === 'G' ? { ...player, eligiblePositions: ['G', 'C'] as Position[] } : player))
+    const constraints = { ...balancedConstraints, guards: 3, centers: 0 }
+    const [best] = rankLineups(pool, Number.POSITIVE_INFINITY, constraints, 1)
+
+    expect(best.lineup).toHaveLength(5)
+    expect(best.lineup.filter((player) => playerPositions(player).includes('G'))).toHaveLength(3)
+  })
+
+  it('keeps locked players and together-pairs in every lineup', () => {
+    const pool = pricedPool(15, 4)
+    const constraints = { ...balancedConstraints, lockedPlayerIds: ['p15'], togetherPairs: [['p3', 'p9']] as [string, string][] }
+
+    rankLineups(pool, Number.POSITIVE_INFINITY, constraints, 5).forEach((lineup) => {
+      const ids = lineup.lineup.map((player) => player.id)
+      expect(ids).toContain('p15')
+      expect(ids.includes('p3')).toBe(ids.includes('p9'))
+    })
+  })
+
+  it('rejects pair rules that name the same player twice', () => {
+    const pool = pricedPool(12, 5)
+    const constraints = { ...balancedConstraints, togetherPairs: [['p2', 'p2']] as [string, string][] }
+
+    expect(rankLineups(pool, Number.POSITIVE_INFINITY, constraints, 5)).toEqual([])
+    expect(explainLineupInfeasibility(pool, Number.POSITIVE_INFINITY, constraints)).toContain('Player 2 is paired with themselves.')
+  })
+
+  it('ranks a few hundred players under a tight budget', () => {
+    const pool = pricedPool(300, 5)
+    const lineups = rankLineups(pool, averageSalary(pool) * 5, balancedConstraints, 5)
+
+    expect(lineups).toHaveLength(5)
+    expect(lineups.every((lineup) => lineup.totalSalary <= averageSalary(pool) * 5)).toBe(true)
+  })
+})
+
+describe('explainLineupInfeasibility', () => {
+  it('names the budget when only the budget blocks a lineup', () => {
+    const pool = pricedPool(12, 6)
+    const cheapest = [...pool].sort((left, right) => left.salary - right.salary).slice(0, 5)
+    const budget = cheapest.reduce((sum, player) => sum + player.salary, 0) - 1
+
+    expect(rankLineups(pool, budget, balancedConstraints, 1)).toEqual([])
+    expect(explainLineupInfeasibility(pool, budget, balancedConstraints)).toEqual([
+      `Budget of $${budget.toLocaleString()} is too low for any lineup that fits the formation.`,
+    ])
+  })
+})
+
+describe('game tempo', () => {
+  const push = { paceDelta: 4, shootingDelta: 0, turnoverDelta: 0 }
+
+  it('keeps the baseline margin spread and win probability without a scouted opponent pace', () => {
+    expect(gameMarginSpread(teamProfile, push)).toBe(MARGIN_STANDARD_DEVIATION)
+    expect(projectMatchupWinProbability(teamProfile, push, 2)).toBe(
+      projectMatchupWinProbability(teamProfile, push, 2, undefined, teamProfile.pace),
+    )
+  })
+
+  it('averages both teams pace and widens the spread in faster games', () => {
+    expect(projectGameTempo(teamProfile, push, 95)).toBeCloseTo((teamProfile.pace + 4 + 95) / 2)
+    expect(gameMarginSpread(teamProfile, push, 110)).toBeGreaterThan(gameMarginSpread(teamProfile, push, 90))
+  })
+
+  it('values a pace push more against a slower opponent', () => {
+    expect(projectMatchupWinProbability(teamProfile, push, 0, undefined, 92)).toBeGreaterThan(
+      projectMatchupWinProbability(teamProfile, push, 0, undefined, 108),
+    )
+  })
+})
+
+describe('seeded simulation', () => {
+  const scenario = { paceDelta: 2, shootingDelta: 1, turnoverDelta: -1 }
+  const draws = (seed: number) => {
+    const random = createSeededRandom(seed)
+    return Array.from({ length: 5 }, () => random())
+  }
+
+  it('draws the same sequence from the same seed and a different one from another', () => {
+    expect(draws(42)).toEqual(draws(42))
+    expect(draws(42)).not.toEqual(draws(43))
+    expect(draws(42).every((value) => value >= 0 && value < 1)).toBe(true)
+  })
+
+  it('reproduces a Monte Carlo run from its seed', () => {
+    const first = runMonteCarloSimulation(teamProfile, scenario, 3, 1000, 99)
+    const again = runMonteCarloSimulation(teamProfile, scenario, 3, 1000, 99)
+    const rerolled = runMonteCarloSimulation(teamProfile, scenario, 3, 1000, 100)
+
+    expect(again).toEqual(first)
+    expect(first.seed).toBe(99)
+    expect(rerolled.distribution).not.toEqual(first.distribution)
+  })
+})
+
+describe('simulatePossessionGames', () => {
+  const averageTeam = {
+    ...teamProfile,
+    offensiveRating: LEAGUE_AVERAGE_RATING,
+    defensiveRating: LEAGUE_AVERAGE_RATING,
+    pace: LEAGUE_AVERAGE_PACE,
+    recentForm: 0.5,
+  }
+  const neutral = { paceDelta: 0, shootingDelta: 0, turnoverDelta: 0 }
+
+  it('plays a league-average team against a league-average opponent to a near coin flip', () => {
+    const summary = simulatePossessionGames(averageTeam, [], neutral, null, 4000, 11)
+
+    expect(summary.winRate).toBeGreaterThan(45)
+    expect(summary.winRate).toBeLessThan(55)
+    expect(Math.abs(summary.averageMargin)).toBeLessThan(1.5)
+    expect(summary.boxScore.team.possessions).toBeCloseTo(LEAGUE_AVERAGE_PACE, 0)
+    expect(summary.boxScore.team.points).toBeGreaterThan(LEAGUE_AVERAGE_RATING * 0.9)
+    expect(summary.boxScore.team.points).toBeLessThan(LEAGUE_AVERAGE_RATING * 1.1)
+  })
+
+  it('turns better shooting into more points and wins', () => {
+    const baseline = simulatePossessionGames(averageTeam, [], neutral, null, 2000, 11)
+    const hot = simulatePossessionGames(averageTeam, [], { ...neutral, shootingDelta: 4 }, null, 2000, 11)
+
+    expect(hot.boxScore.team.effectiveFgPct).toBeGreaterThan(baseline.boxScore.team.effectiveFgPct)
+    expect(hot.winRate).toBeGreaterThan(baseline.winRate)
+  })
+})
+
+describe('formations', () => {
+  const rosterRow = (id: string, position: string, eligiblePositions: string) => ({
+    id,
+    name: `Player ${id}`,
+    position,
+    eligiblePositions,
+    team: 'HCK',
+    salary: '5000',
+    minutes: '30',
+    points: '18',
+    assists: '4',
+    rebounds: '5',
+    steals: '1',
+    blocks: '0.5',
+    turnovers: '2',
+    fgPct: '0.47',
+    threePct: '0.36',
+    usage: '0.24',
+  })
+
+  it('reads secondary positions from the roster and falls back to the primary one', () => {
+    const { players, errors } = validateRosterRows(
+      [rosterRow('p1', 'G', 'G/F'), rosterRow('p2', 'C', ''), rosterRow('p3', 'F', 'F/X')],
+      [2, 3, 4],
+    )
+
+    expect(players.map(playerPositions)).toEqual([['G', 'F'], ['C']])
+    expect(errors).toEqual([{ row: 4, message: 'eligiblePositions must use G, F or C (got "X")' }])
+  })
+
+  it('fills flex-heavy formations and explains ones that are not five slots', () => {
+    const pool = createPlayerPool(15, 6)
+    const flexHeavy: LineupConstraints = { ...balancedConstraints, guards: 0, forwards: 0, centers: 1, flexSlots: { 'G/F': 3, UTIL: 1 } }
+    const [best] = rankLineups(pool, 100000, flexHeavy, 1)
+    const centers = best.lineup.filter((player) => player.position === 'C').length
+
+    expect(best.lineup).toHaveLength(5)
+    expect(centers).toBeGreaterThanOrEqual(1)
+    expect(centers).toBeLessThanOrEqual(2)
+
+    const sixSlots = { ...flexHeavy, guards: 1 }
+    expect(rankLineups(pool, 100000, sixSlots, 1)).toEqual([])
+    expect(explainLineupInfeasibility(pool, 100000, sixSlots)).toContain('Formation fills 6 slots but a lineup needs 5.')
+  })
+})
@@ -1,13 +1,23 @@
 import type {
-  GameAnomaly,
+  AvailabilityImpact,
+  AvailabilityModel,
+  BoxScoreTotals,
+  CsvRowError,
+  FlexSlot,
+  FourFactor,
+  GameLogImport,
   GameSample,
   LineupConstraints,
   LineupChemistry,
   LineupResult,
+  ModelCoefficients,
   MonteCarloSummary,
   Player,
   PlayerRadarStats,
-  Recommendation,
+  Position,
+  PossessionProfile,
+  PossessionSimulationSummary,
+  RosterImport,
   SensitivityImpact,
   ScenarioInputs,
   TeamCsvRow,
@@ -26,6 +36,10 @@ export const estimatePlayoffOdds = (team: TeamProfile, netRating: number) => {
 }
 
 export const calculateTeamMomentum = (games: GameSample[]) => {
+  if (games.length === 0) {
+    return 0
+  }
+
   const latest = games.slice(-3)
   const avgDiff = latest.reduce((sum, game) => sum + (game.pointsFor - game.pointsAgainst), 0) / latest.length
   return Number(avgDiff.toFixed(1))
@@ -44,13 +58,61 @@ export const buildPlayerRadar = (player: Player): PlayerRadarStats[] => {
   return Object.entries(score).map(([metric, value]) => ({ metric, value: Math.round(value) }))
 }
 
-export const projectWinProbability = (team: TeamProfile, scenario: ScenarioInputs) => {
-  const baseNet = calculateNetRating(team)
-  const scenarioBoost = scenario.shootingDelta * 0.35 - scenario.turnoverDelta * 0.4 + scenario.paceDelta * 0.12
-  const score = 0.18 * (baseNet + scenarioBoost) + 0.75 * team.recentForm
-  return Math.round(clamp(sigmoid(score) * 100, 1, 99))
+/**
+ * Hand-tuned weights the engine shipped with. The win model is 0.18 × (net rating + scenario boost)
+ * + 0.75 × recent form, with the scenario boost weighted 0.35 / 0.4 / 0.12 inside the bracket, and
+ * a 0.7-point penalty per opponent net rating point taken off the final percentage.
+ */
+export const DEFAULT_MODEL_COEFFICIENTS: ModelCoefficients = {
+  id: 'default',
+  label: 'Default (hand-tuned)',
+  fittedAt: null,
+  sampleSize: 0,
+  win: {
+    intercept: 0,
+    netRating: 0.18,
+    recentForm: 0.75,
+    shooting: 0.18 * 0.35,
+    turnover: 0.18 * 0.4,
+    pace: 0.18 * 0.12,
+    opponentNetRating: 0,
+    opponentPenalty: 0.7,
+  },
+  margin: {
+    offset: 0,
+    shooting: 0.38,
+    turnover: 0.44,
+    pace: 0.14,
+    opponentNetRating: 0.75,
+  },
+}
+
+/** Logit of the win model before the opponent penalty; fitted models move the opponent term inside the logit. */
+export const winModelLogit = (
+  team: TeamProfile,
+  scenario: ScenarioInputs,
+  opponentNetRating: number,
+  coefficients: ModelCoefficients,
+) => {
+  const { win } = coefficients
+  return (
+    win.intercept +
+    win.netRating * calculateNetRating(team) +
+    win.recentForm * team.recentForm +
+    win.shooting * scenario.shootingDelta -
+    win.turnover * scenario.turnoverDelta +
+    win.pace * scenario.paceDelta -
+    win.opponentNetRating * opponentNetRating
+  )
 }
 
+export const projectWinProbability = (
+  team: TeamProfile,
+  scenario: ScenarioInputs,
+  coefficients = DEFAULT_MODEL_COEFFICIENTS,
+  opponentNetRating = 0,
+) => Math.round(clamp(sigmoid(winModelLogit(team, scenario, opponentNetRating, coefficients)) * 100, 1, 99))
+
 const fantasyProjection = (player: Player) => {
   return (
     player.points +
@@ -64,156 +126,564 @@ const fantasyProjection = (player: Player) => {
 
 const defenseImpact = (player: Player) => player.steals * 1.7 + player.blocks * 1.9 + player.rebounds * 0.4
 
-const countPosition = (lineup: Player[], position: Player['position']) => lineup.filter((player) => player.position === position).length
+export const lineupObjective = (player: Player) => fantasyProjection(player) + defenseImpact(player) * 0.8
+
+const computeLineupTotals = (lineup: Player[], salary: number) => {
+  const projectedPoints = lineup.reduce((sum, player) => sum + fantasyProjection(player), 0)
+  const projectedDefenseImpact = lineup.reduce((sum, player) => sum + defenseImpact(player), 0)
+
+  return {
+    lineup: [...lineup],
+    totalSalary: salary,
+    projectedPoints: Number(projectedPoints.toFixed(1)),
+    projectedDefenseImpact: Number(projectedDefenseImpact.toFixed(1)),
+    objective: Number((projectedPoints + projectedDefenseImpact * 0.8).toFixed(1)),
+  }
+}
 
-const computeLineupTotals = (lineup: Player[], salary: number) => ({
-  lineup: [...lineup],
-  totalSalary: salary,
-  projectedPoints: Number(lineup.reduce((sum, player) => sum + fantasyProjection(player), 0).toFixed(1)),
-  projectedDefenseImpact: Number(lineup.reduce((sum, player) => sum + defenseImpact(player), 0).toFixed(1)),
+const emptyLineupResult = (): LineupResult => ({
+  lineup: [],
+  totalSalary: 0,
+  projectedPoints: 0,
+  projectedDefenseImpact: 0,
+  objective: 0,
+  feasibility: 'infeasible',
+  conflicts: [],
 })
 
-export const optimizeLineup = (pool: Player[], budget: number, slots = 5): LineupResult => {
-  let best: LineupResult = {
-    lineup: [],
-    totalSalary: 0,
-    projectedPoints: 0,
-    projectedDefenseImpact: 0,
-    feasibility: 'infeasible',
-  }
-
-  const backtrack = (start: number, chosen: Player[], salary: number) => {
-    if (chosen.length === slots) {
-      const totalPoints = chosen.reduce((sum, player) => sum + fantasyProjection(player), 0)
-      const totalDefense = chosen.reduce((sum, player) => sum + defenseImpact(player), 0)
-      const adjustedScore = totalPoints + totalDefense * 0.8
-
-      if (salary <= budget && adjustedScore > best.projectedPoints + best.projectedDefenseImpact * 0.8) {
-        best = {
-          ...computeLineupTotals(chosen, salary),
-          feasibility: 'optimal',
+type LineupRules = {
+  lockedPlayerIds: string[]
+  togetherPairs: [string, string][]
+  apartPairs: [string, string][]
+  positionSalaryCaps: Partial<Record<Position, number>>
+}
+
+const noLineupRules: LineupRules = { lockedPlayerIds: [], togetherPairs: [], apartPairs: [], positionSalaryCaps: {} }
+
+const partnerMap = (pairs: [string, string][]) => {
+  const partners = new Map<string, string[]>()
+  pairs.forEach(([left, right]) => {
+    partners.set(left, [...(partners.get(left) ?? []), right])
+    partners.set(right, [...(partners.get(right) ?? []), left])
+  })
+  return partners
+}
+
+const lineupPositions: Position[] = ['G', 'F', 'C']
+
+export const flexSlotPositions: Record<FlexSlot, Position[]> = {
+  'G/F': ['G', 'F'],
+  'F/C': ['F', 'C'],
+  UTIL: ['G', 'F', 'C'],
+}
+
+export const playerPositions = (player: Player): Position[] =>
+  player.eligiblePositions && player.eligiblePositions.length > 0 ? player.eligiblePositions : [player.position]
+
+// Each slot lists the positions it accepts: pure slots first, then flex slots.
+const constraintSlots = (constraints: LineupConstraints): Position[][] => [
+  ...Array.from({ length: constraints.guards }, (): Position[] => ['G']),
+  ...Array.from({ length: constraints.forwards }, (): Position[] => ['F']),
+  ...Array.from({ length: constraints.centers }, (): Position[] => ['C']),
+  ...(Object.entries(constraints.flexSlots) as [FlexSlot, number][]).flatMap(([slot, count]) =>
+    Array.from({ length: count }, () => flexSlotPositions[slot]),
+  ),
+]
+
+const positionBits: Record<Position, number> = { G: 1, F: 2, C: 4 }
+const POSITION_MASKS = [1, 2, 3, 4, 5, 6, 7]
+
+const positionMask = (positions: Position[]) => positions.reduce((mask, position) => mask | positionBits[position], 0)
+
+// For each set of eligible positions, the unions of positions that contain it.
+const containingMasks = Array.from({ length: 8 }, (_, mask) => POSITION_MASKS.filter((union) => (mask & ~union) === 0))
+
+/**
+ * Hall's condition for placing players onto slots: a group fits when, for every union of positions, the players
+ * eligible only inside it do not outnumber the slots that accept any of it. Counting players per union replaces
+ * a matching search, so adding or removing a player is a handful of increments.
+ */
+const createSlotCounter = (slots: Position[][]) => {
+  const capacity = Array.from({ length: 8 }, (_, union) => slots.filter((slot) => (positionMask(slot) & union) !== 0).length)
+  const fits = (within: number[], mask: number) => containingMasks[mask].every((union) => within[union] < capacity[union])
+  const add = (within: number[], mask: number, delta: number) => {
+    containingMasks[mask].forEach((union) => {
+      within[union] += delta
+    })
+  }
+  const groupFits = (group: Player[]) => {
+    const within = Array.from({ length: 8 }, () => 0)
+    return group.every((player) => {
+      const mask = positionMask(playerPositions(player))
+      if (!fits(within, mask)) {
+        return false
+      }
+      add(within, mask, 1)
+      return true
+    })
+  }
+  return { fits, add, groupFits }
+}
+
+// Lagrange multipliers for the budget bound, as multiples of the pool's average value per salary dollar.
+const BUDGET_MULTIPLIERS = [0.85, 1, 1.1, 1.25, 1.4, 1.6, 2]
+
+/**
+ * Branch-and-bound search for the best `topK` lineups under a salary budget.
+ * Locked players are visited first, then everyone else in descending objective order. Sets of players that fit the
+ * slots form a transversal matroid, so a greedy completion of the remaining players is exact once pair rules and
+ * position ceilings are ignored. Each bound ranks the remaining players by value minus λ × salary: with λ = 0 that is
+ * the best-value fill, and with λ > 0 the fill plus λ × the unspent budget still bounds every affordable lineup, which
+ * keeps tight budgets from exploring lineups that cannot be paid for. The cheapest fill must also fit under the budget.
+ *
+ * Every ranking is sorted once. Because only the first r players of each eligibility mask can enter a fill of r
+ * slots, each node reads precomputed per-mask lists for its suffix instead of rescanning the pool.
+ */
+const searchTopLineups = (
+  pool: Player[],
+  budget: number,
+  slots: Position[][],
+  topK: number,
+  rules: LineupRules = noLineupRules,
+): LineupResult[] => {
+  const locked = new Set(rules.lockedPlayerIds)
+  const entries = pool
+    .filter((player) => player.salary <= budget)
+    .map((player) => ({
+      player,
+      value: lineupObjective(player),
+      locked: locked.has(player.id),
+      mask: positionMask(playerPositions(player)),
+    }))
+    .sort((left, right) => Number(right.locked) - Number(left.locked) || right.value - left.value)
+
+  const entryIndex = new Map(entries.map((entry, index) => [entry.player.id, index]))
+  if (rules.lockedPlayerIds.some((playerId) => !entryIndex.has(playerId))) {
+    return []
+  }
+
+  const slotCounter = createSlotCounter(slots)
+  const together = partnerMap(rules.togetherPairs)
+  const apart = partnerMap(rules.apartPairs)
+  const positionSalary: Record<Position, number> = { G: 0, F: 0, C: 0 }
+
+  // suffix[index][mask] lists the best `slots.length` players at or after `index` with that mask, best first.
+  const rankSuffixes = (weight: (entry: (typeof entries)[number]) => number) => {
+    const weights = entries.map(weight)
+    const suffix: number[][][] = Array.from({ length: entries.length + 1 })
+    let current: number[][] = Array.from({ length: 8 }, () => [])
+    suffix[entries.length] = current
+    for (let index = entries.length - 1; index >= 0; index--) {
+      const mask = entries[index].mask
+      current = [...current]
+      current[mask] = [index, ...current[mask]]
+        .sort((left, right) => weights[right] - weights[left])
+        .slice(0, slots.length)
+      suffix[index] = current
+    }
+    return { weights, suffix }
+  }
+
+  const totalSalary = entries.reduce((sum, entry) => sum + entry.player.salary, 0)
+  const valuePerSalary = totalSalary > 0 ? entries.reduce((sum, entry) => sum + entry.value, 0) / totalSalary : 0
+  const multipliers = [0, ...(Number.isFinite(budget) ? BUDGET_MULTIPLIERS.map((multiple) => multiple * valuePerSalary) : [])]
+  const valueRankings = multipliers.map((lambda) => ({
+    lambda,
+    ...rankSuffixes((entry) => entry.value - lambda * entry.player.salary),
+  }))
+  const salaryRanking = rankSuffixes((entry) => -entry.player.salary)
+
+  const best: { players: Player[]; salary: number; value: number }[] = []
+  const chosen: Player[] = []
+  const chosenIds = new Set<string>()
+  const within = Array.from({ length: 8 }, () => 0)
+  const limit = Math.max(1, Math.floor(topK))
+
+  const threshold = () => (best.length < limit ? Number.NEGATIVE_INFINITY : best[best.length - 1].value)
+
+  const record = (salary: number, value: number) => {
+    const position = best.findIndex((entry) => value > entry.value)
+    best.splice(position === -1 ? best.length : position, 0, { players: [...chosen], salary, value })
+    if (best.length > limit) {
+      best.pop()
+    }
+  }
+
+  // Scratch state for greedy fills, reused across nodes.
+  const heads = Array.from({ length: 8 }, () => 0)
+  const group = Array.from({ length: 8 }, () => 0)
+
+  // Greedy completion of the open slots from the players at or after `index`; null when they cannot fill them.
+  const greedyFill = ({ weights, suffix }: ReturnType<typeof rankSuffixes>, index: number) => {
+    const lists = suffix[index]
+    heads.fill(0)
+    within.forEach((count, union) => {
+      group[union] = count
+    })
+    let open = slots.length - chosen.length
+    let total = 0
+
+    while (open > 0) {
+      let pick = -1
+      for (const mask of POSITION_MASKS) {
+        const candidate = lists[mask][heads[mask]]
+        if (candidate !== undefined && (pick === -1 || weights[candidate] > weights[pick])) {
+          pick = candidate
         }
       }
-      return
+      if (pick === -1) {
+        return null
+      }
+
+      const mask = entries[pick].mask
+      if (slotCounter.fits(group, mask)) {
+        slotCounter.add(group, mask, 1)
+        total += weights[pick]
+        open -= 1
+        heads[mask] += 1
+      } else {
+        // A mask that no longer fits never fits again as the group grows.
+        heads[mask] = lists[mask].length
+      }
     }
 
-    for (let index = start; index < pool.length; index++) {
-      const player = pool[index]
-      if (salary + player.salary > budget) {
-        continue
+    return total
+  }
+
+  const canBeat = (index: number, salary: number, value: number) => {
+    const floor = threshold()
+    const cheapest = greedyFill(salaryRanking, index)
+    if (cheapest === null || salary - cheapest > budget) {
+      return false
+    }
+    return valueRankings.every((ranking) => {
+      const fill = greedyFill(ranking, index)
+      const unspent = ranking.lambda > 0 ? ranking.lambda * (budget - salary) : 0
+      return fill !== null && value + unspent + fill > floor
+    })
+  }
+
+  // A together-partner can still be taken only if it is in the pool and has not been skipped already.
+  const partnerStillReachable = (partnerId: string, index: number) => {
+    const partnerIndex = entryIndex.get(partnerId)
+    return partnerIndex !== undefined && (partnerIndex > index || chosenIds.has(partnerId))
+  }
+
+  const canTake = (player: Player, mask: number, index: number, salary: number) => {
+    const cap = rules.positionSalaryCaps[player.position]
+    return (
+      salary + player.salary <= budget &&
+      (cap === undefined || positionSalary[player.position] + player.salary <= cap) &&
+      !(apart.get(player.id) ?? []).some((partnerId) => chosenIds.has(partnerId)) &&
+      (together.get(player.id) ?? []).every((partnerId) => partnerStillReachable(partnerId, index)) &&
+      slotCounter.fits(within, mask)
+    )
+  }
+
+  const canSkip = (player: Player) =>
+    !locked.has(player.id) && !(together.get(player.id) ?? []).some((partnerId) => chosenIds.has(partnerId))
+
+  const pairsComplete = () =>
+    chosen.every((player) => (together.get(player.id) ?? []).every((partnerId) => chosenIds.has(partnerId)))
+
+  const visit = (index: number, salary: number, value: number) => {
+    if (chosen.length === slots.length) {
+      if (value > threshold() && pairsComplete()) {
+        record(salary, value)
       }
+      return
+    }
+
+    if (!canBeat(index, salary, value)) {
+      return
+    }
+
+    const { player, value: playerValue, mask } = entries[index]
+    if (canTake(player, mask, index, salary)) {
       chosen.push(player)
-      backtrack(index + 1, chosen, salary + player.salary)
+      chosenIds.add(player.id)
+      slotCounter.add(within, mask, 1)
+      positionSalary[player.position] += player.salary
+      visit(index + 1, salary + player.salary, value + playerValue)
+      positionSalary[player.position] -= player.salary
+      slotCounter.add(within, mask, -1)
+      chosenIds.delete(player.id)
       chosen.pop()
     }
+
+    if (canSkip(player)) {
+      visit(index + 1, salary, value)
+    }
   }
 
-  backtrack(0, [], 0)
+  visit(0, 0, 0)
 
-  return best
+  // Report players in roster order so lineups read the same way the roster does.
+  const rosterOrder = new Map(pool.map((player, index) => [player.id, index]))
+  return best.map((entry) => ({
+    ...computeLineupTotals(
+      [...entry.players].sort((left, right) => (rosterOrder.get(left.id) ?? 0) - (rosterOrder.get(right.id) ?? 0)),
+      entry.salary,
+    ),
+    feasibility: 'optimal',
+    conflicts: [],
+  }))
 }
 
-export const optimizeLineupWithConstraints = (
+const availableForConstraints = (pool: Player[], constraints: LineupConstraints) =>
+  pool.filter((player) => !constraints.excludedPlayerIds.includes(player.id) && player.minutes >= constraints.minMinutes)
+
+// A pair rule naming the same player twice has no meaning; it is rejected rather than guessed at.
+const selfPairs = (constraints: LineupConstraints) =>
+  [...constraints.togetherPairs, ...constraints.apartPairs].filter(([left, right]) => left === right)
+
+const constraintRules = (constraints: LineupConstraints): LineupRules => ({
+  lockedPlayerIds: constraints.lockedPlayerIds,
+  togetherPairs: constraints.togetherPairs,
+  apartPairs: constraints.apartPairs,
+  positionSalaryCaps: constraints.positionSalaryCaps,
+})
+
+export const rankLineups = (
   pool: Player[],
   budget: number,
-  constraints: LineupConstraints,
+  constraints: LineupConstraints | null,
+  topK = 5,
   slots = 5,
-): LineupResult => {
-  const availablePool = pool.filter(
-    (player) => !constraints.excludedPlayerIds.includes(player.id) && player.minutes >= constraints.minMinutes,
-  )
+): LineupResult[] => {
+  if (!constraints) {
+    return searchTopLineups(pool, budget, Array.from({ length: slots }, () => lineupPositions), topK)
+  }
 
-  let best: LineupResult = {
-    lineup: [],
-    totalSalary: 0,
-    projectedPoints: 0,
-    projectedDefenseImpact: 0,
-    feasibility: 'infeasible',
+  const formationSlots = constraintSlots(constraints)
+  if (formationSlots.length !== slots || selfPairs(constraints).length > 0) {
+    return []
   }
 
-  const backtrack = (start: number, chosen: Player[], salary: number) => {
-    if (chosen.length === slots) {
-      const guards = countPosition(chosen, 'G')
-      const forwards = countPosition(chosen, 'F')
-      const centers = countPosition(chosen, 'C')
+  return searchTopLineups(availableForConstraints(pool, constraints), budget, formationSlots, topK, constraintRules(constraints))
+}
 
-      if (guards !== constraints.guards || forwards !== constraints.forwards || centers !== constraints.centers) {
-        return
-      }
+const positionNames: Record<Position, string> = { G: 'guard', F: 'forward', C: 'center' }
 
-      const totalPoints = chosen.reduce((sum, player) => sum + fantasyProjection(player), 0)
-      const totalDefense = chosen.reduce((sum, player) => sum + defenseImpact(player), 0)
-      const adjustedScore = totalPoints + totalDefense * 0.8
-      const bestScore = best.projectedPoints + best.projectedDefenseImpact * 0.8
+/**
+ * Explains why `rankLineups` found nothing. Direct contradictions (a locked player who is unavailable, too few
+ * eligible players at a position, ...) are reported first; otherwise each constraint family is relaxed in turn and
+ * the ones whose removal makes a lineup possible are named.
+ */
+export const explainLineupInfeasibility = (
+  pool: Player[],
+  budget: number,
+  constraints: LineupConstraints,
+  slots = 5,
+): string[] => {
+  const conflicts: string[] = []
+  const byId = new Map(pool.map((player) => [player.id, player]))
+  const nameOf = (id: string) => byId.get(id)?.name ?? id
+  const needs: Record<Position, number> = { G: constraints.guards, F: constraints.forwards, C: constraints.centers }
+  const formationSlots = constraintSlots(constraints)
+  const fitsSlots = createSlotCounter(formationSlots).groupFits
+  const available = availableForConstraints(pool, constraints)
+  const lockedPlayers = constraints.lockedPlayerIds.map((id) => byId.get(id)).filter((player) => player !== undefined)
 
-      if (salary <= budget && adjustedScore > bestScore) {
-        best = {
-          ...computeLineupTotals(chosen, salary),
-          feasibility: 'optimal',
-        }
-      }
-      return
+  if (formationSlots.length !== slots) {
+    conflicts.push(`Formation fills ${formationSlots.length} slots but a lineup needs ${slots}.`)
+  }
+
+  selfPairs(constraints).forEach(([playerId]) => {
+    conflicts.push(`${nameOf(playerId)} is paired with themselves.`)
+  })
+
+  lockedPlayers.forEach((player) => {
+    if (constraints.excludedPlayerIds.includes(player.id)) {
+      conflicts.push(`${player.name} is locked in but marked unavailable.`)
+    } else if (player.minutes < constraints.minMinutes) {
+      conflicts.push(
+        `${player.name} is locked in but averages ${player.minutes} minutes, below the ${constraints.minMinutes}-minute threshold.`,
+      )
     }
+  })
 
-    for (let index = start; index < availablePool.length; index++) {
-      const player = availablePool[index]
+  if (lockedPlayers.length > 0 && !fitsSlots(lockedPlayers)) {
+    conflicts.push(`Locked players (${lockedPlayers.map((player) => player.name).join(', ')}) cannot all fit the formation's slots.`)
+  }
 
-      if (salary + player.salary > budget) {
-        continue
-      }
+  lineupPositions.forEach((position) => {
+    const eligibleCount = available.filter((player) => playerPositions(player).includes(position)).length
+    const lockedSalary = lockedPlayers
+      .filter((player) => player.position === position)
+      .reduce((sum, player) => sum + player.salary, 0)
+    const cap = constraints.positionSalaryCaps[position]
 
-      const nextLineup = [...chosen, player]
-      const guards = countPosition(nextLineup, 'G')
-      const forwards = countPosition(nextLineup, 'F')
-      const centers = countPosition(nextLineup, 'C')
+    if (eligibleCount < needs[position]) {
+      conflicts.push(
+        `Only ${eligibleCount} eligible ${positionNames[position]}s for ${needs[position]} ${positionNames[position]} slots.`,
+      )
+    }
+    if (cap !== undefined && lockedSalary > cap) {
+      conflicts.push(
+        `Locked ${positionNames[position]}s cost $${lockedSalary.toLocaleString()}, above the $${cap.toLocaleString()} ${positionNames[position]} ceiling.`,
+      )
+    }
+  })
 
-      if (guards > constraints.guards || forwards > constraints.forwards || centers > constraints.centers) {
-        continue
-      }
+  const fillable = available.reduce<Player[]>((group, player) => (fitsSlots([...group, player]) ? [...group, player] : group), [])
+  if (conflicts.length === 0 && fillable.length < formationSlots.length) {
+    conflicts.push(`Eligible players can fill only ${fillable.length} of the formation's ${formationSlots.length} slots.`)
+  }
 
-      backtrack(index + 1, nextLineup, salary + player.salary)
+  const lockedSalary = lockedPlayers.reduce((sum, player) => sum + player.salary, 0)
+  if (lockedSalary > budget) {
+    conflicts.push(`Locked players cost $${lockedSalary.toLocaleString()}, above the $${budget.toLocaleString()} budget.`)
+  }
+
+  constraints.apartPairs.forEach(([left, right]) => {
+    if (constraints.lockedPlayerIds.includes(left) && constraints.lockedPlayerIds.includes(right)) {
+      conflicts.push(`${nameOf(left)} and ${nameOf(right)} are both locked in but must never play together.`)
     }
+    const pairedTogether = constraints.togetherPairs.some(
+      ([first, second]) => (first === left && second === right) || (first === right && second === left),
+    )
+    if (pairedTogether) {
+      conflicts.push(`${nameOf(left)} and ${nameOf(right)} are required both together and apart.`)
+    }
+  })
+
+  if (conflicts.length > 0) {
+    return conflicts
   }
 
-  backtrack(0, [], 0)
-  return best
+  const relaxations: { message: string; constraints: LineupConstraints; budget: number }[] = [
+    {
+      message: 'Per-position salary ceilings leave no affordable lineup.',
+      constraints: { ...constraints, positionSalaryCaps: {} },
+      budget,
+    },
+    {
+      message: `Together rules (${constraints.togetherPairs.map(([left, right]) => `${nameOf(left)} + ${nameOf(right)}`).join(', ')}) cannot be satisfied.`,
+      constraints: { ...constraints, togetherPairs: [] },
+      budget,
+    },
+    {
+      message: `Never-together rules (${constraints.apartPairs.map(([left, right]) => `${nameOf(left)} / ${nameOf(right)}`).join(', ')}) cannot be satisfied.`,
+      constraints: { ...constraints, apartPairs: [] },
+      budget,
+    },
+    {
+      message: `Locked players (${lockedPlayers.map((player) => player.name).join(', ')}) cannot fit with the other constraints.`,
+      constraints: { ...constraints, lockedPlayerIds: [] },
+      budget,
+    },
+    {
+      message: `Budget of $${budget.toLocaleString()} is too low for any lineup that fits the formation.`,
+      constraints,
+      budget: Number.POSITIVE_INFINITY,
+    },
+    {
+      message: `The ${constraints.minMinutes}-minute threshold leaves too few eligible players.`,
+      constraints: { ...constraints, minMinutes: 0 },
+      budget,
+    },
+    {
+      message: 'Too many players are marked unavailable to fill the formation.',
+      constraints: { ...constraints, excludedPlayerIds: [] },
+      budget,
+    },
+  ]
+
+  const relaxedConstraints = relaxations
+    .filter((relaxation) => rankLineups(pool, relaxation.budget, relaxation.constraints, 1, slots).length > 0)
+    .map((relaxation) => relaxation.message)
+
+  return relaxedConstraints.length > 0
+    ? relaxedConstraints
+    : ['No single constraint is to blame: the combination of formation, budget, availability and player rules leaves no lineup.']
 }
 
-const randomNormal = () => {
-  let first = 0
-  let second = 0
-  while (first === 0) {
-    first = Math.random()
+export const optimizeLineup = (pool: Player[], budget: number, slots = 5): LineupResult =>
+  rankLineups(pool, budget, null, 1, slots)[0] ?? emptyLineupResult()
+
+export const optimizeLineupWithConstraints = (
+  pool: Player[],
+  budget: number,
+  constraints: LineupConstraints,
+  slots = 5,
+): LineupResult =>
+  rankLineups(pool, budget, constraints, 1, slots)[0] ?? {
+    ...emptyLineupResult(),
+    conflicts: explainLineupInfeasibility(pool, budget, constraints, slots),
   }
-  while (second === 0) {
-    second = Math.random()
+
+export const DEFAULT_SIMULATION_SEED = 20240611
+
+// Mulberry32: small, fast 32-bit PRNG so identical seeds replay identical simulations.
+export const createSeededRandom = (seed: number) => {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let value = state
+    value = Math.imul(value ^ (value >>> 15), value | 1)
+    value ^= value + Math.imul(value ^ (value >>> 7), value | 61)
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296
   }
-  return Math.sqrt(-2 * Math.log(first)) * Math.cos(2 * Math.PI * second)
 }
 
-export const runMonteCarloSimulation = (
-  team: TeamProfile,
-  scenario: ScenarioInputs,
-  opponentNetRating: number,
-  iterations: number,
-): MonteCarloSummary => {
-  const runs = clamp(Math.round(iterations), 200, 10000)
-  const baseNet = calculateNetRating(team)
-  const scenarioEdge = scenario.shootingDelta * 0.38 - scenario.turnoverDelta * 0.44 + scenario.paceDelta * 0.14
-  const adjustedEdge = baseNet + scenarioEdge - opponentNetRating * 0.75
+export const generateSimulationSeed = () => Math.floor(Math.random() * 0xffffffff) >>> 0
 
-  const margins: number[] = []
-  let wins = 0
+/**
+ * Samples who suits up in each Monte Carlo run. For every uncertain player the same run is also
+ * replayed with that player forced in and forced out (everyone else as sampled, same game noise),
+ * so the swing per player is not buried under simulation noise. Without uncertain players it draws
+ * nothing, leaving seeded results unchanged.
+ */
+const createAvailabilitySampler = (model?: AvailabilityModel) => {
+  const players = model?.players ?? []
+  const winsIfPlays = players.map(() => 0)
+  const winsIfSits = players.map(() => 0)
+  let absentIds: string[] = []
+  let runs = 0
 
-  for (let index = 0; index < runs; index++) {
-    const variance = randomNormal() * 8.4
-    const margin = adjustedEdge + variance
-    margins.push(margin)
-    if (margin > 0) {
-      wins += 1
-    }
+  return {
+    sampleShift: (random: () => number) => {
+      if (!model || players.length === 0) {
+        return 0
+      }
+      absentIds = players.filter((player) => random() >= player.playProbability).map((player) => player.id)
+      return absentIds.length > 0 ? model.marginShift(absentIds) : 0
+    },
+    /** Takes the run's margin before any lineup shift. */
+    record: (baseMargin: number) => {
+      if (!model || players.length === 0) {
+        return
+      }
+      runs += 1
+      players.forEach((player, index) => {
+        const others = absentIds.filter((playerId) => playerId !== player.id)
+        winsIfPlays[index] += baseMargin + model.marginShift(others) > 0 ? 1 : 0
+        winsIfSits[index] += baseMargin + model.marginShift([...others, player.id]) > 0 ? 1 : 0
+      })
+    },
+    summarize: (): AvailabilityImpact[] =>
+      players.map((player, index) => {
+        const winIfPlays = runs > 0 ? (winsIfPlays[index] / runs) * 100 : 0
+        const winIfSits = runs > 0 ? (winsIfSits[index] / runs) * 100 : 0
+        return {
+          playerId: player.id,
+          name: player.name,
+          playProbability: player.playProbability,
+          winIfPlays: Number(winIfPlays.toFixed(1)),
+          winIfSits: Number(winIfSits.toFixed(1)),
+          swing: Number((winIfPlays - winIfSits).toFixed(1)),
+        }
+      }),
   }
+}
 
+const summarizeMargins = (
+  margins: number[],
+  wins: number,
+  seed: number,
+  availability = createAvailabilitySampler(),
+): MonteCarloSummary => {
   margins.sort((left, right) => left - right)
 
   const averageMargin = margins.reduce((sum, margin) => sum + margin, 0) / margins.length
@@ -235,89 +705,378 @@ export const runMonteCarloSimulation = (
   }))
 
   return {
-    winRate: Number(((wins / runs) * 100).toFixed(1)),
+    winRate: Number(((wins / margins.length) * 100).toFixed(1)),
     averageMargin: Number(averageMargin.toFixed(2)),
     floorMargin: Number(floorMargin.toFixed(2)),
     ceilingMargin: Number(ceilingMargin.toFixed(2)),
     distribution,
+    seed: seed >>> 0,
+    availabilityImpact: availability.summarize(),
   }
 }
 
-export const generateRecommendations = (
+export const randomNormal = (random: () => number) => {
+  let first = 0
+  let second = 0
+  while (first === 0) {
+    first = random()
+  }
+  while (second === 0) {
+    second = random()
+  }
+  return Math.sqrt(-2 * Math.log(first)) * Math.cos(2 * Math.PI * second)
+}
+
+// Game-to-game spread of the final margin around its expectation in a league-average 100-possession game.
+export const MARGIN_STANDARD_DEVIATION = 8.4
+// Ten points of lineup objective (fantasy production plus defense) are worth about 0.8 points of margin.
+export const OBJECTIVE_TO_MARGIN = 0.08
+export const LEAGUE_AVERAGE_PACE = 100
+// Ten possessions of tempo gap between the teams double (or cancel) the value of a pace push.
+const TEMPO_LEVERAGE_SCALE = 10
+
+/** Possessions per team: each side pulls the game toward its own pace. */
+export const projectGameTempo = (team: TeamProfile, scenario: ScenarioInputs, opponentPace = LEAGUE_AVERAGE_PACE) =>
+  (team.pace + scenario.paceDelta + opponentPace) / 2
+
+/** Margin spread grows with the square root of possessions, like any sum of per-possession outcomes. */
+export const marginStandardDeviation = (possessions: number) =>
+  MARGIN_STANDARD_DEVIATION * Math.sqrt(Math.max(1, possessions) / LEAGUE_AVERAGE_PACE)
+
+/** The game's margin spread; without a scouted opponent pace the tempo is unknown and the baseline spread holds. */
+export const gameMarginSpread = (team: TeamProfile, scenario: ScenarioInputs, opponentPace?: number) =>
+  opponentPace === undefined
+    ? MARGIN_STANDARD_DEVIATION
+    : marginStandardDeviation(projectGameTempo(team, scenario, opponentPace))
+
+/**
+ * Judges a strategy's pace delta against the opponent's preferred tempo. Pushing pace pays off more
+ * against a slower team that cannot keep up and less against one that already wants to run; slowing
+ * the game down is the mirror image. Without scouting the delta is taken at face value.
+ */
+export const tempoAdjustedScenario = (
+  team: TeamProfile,
+  scenario: ScenarioInputs,
+  opponentPace?: number,
+): ScenarioInputs => {
+  if (opponentPace === undefined) {
+    return scenario
+  }
+
+  const leverage = clamp(1 + (team.pace - opponentPace) / TEMPO_LEVERAGE_SCALE, 0, 2)
+  return { ...scenario, paceDelta: Number((scenario.paceDelta * leverage).toFixed(2)) }
+}
+
+export const expectedMargin = (
   team: TeamProfile,
   scenario: ScenarioInputs,
   opponentNetRating: number,
-): Recommendation[] => {
-  const recommendations: Recommendation[] = []
-
-  const paceImpact = Math.abs(scenario.paceDelta) * 1.6
-  if (scenario.paceDelta > 2) {
-    recommendations.push({
-      title: 'Push transition volume',
-      detail: 'Increase early-clock actions and rim pressure to leverage tempo edge.',
-      impact: Number((paceImpact + 4).toFixed(1)),
-    })
+  coefficients = DEFAULT_MODEL_COEFFICIENTS,
+) => {
+  const { margin } = coefficients
+  const scenarioEdge =
+    scenario.shootingDelta * margin.shooting - scenario.turnoverDelta * margin.turnover + scenario.paceDelta * margin.pace
+  return calculateNetRating(team) + margin.offset + scenarioEdge - opponentNetRating * margin.opponentNetRating
+}
+
+export const runMonteCarloSimulation = (
+  team: TeamProfile,
+  scenario: ScenarioInputs,
+  opponentNetRating: number,
+  iterations: number,
+  seed = DEFAULT_SIMULATION_SEED,
+  coefficients = DEFAULT_MODEL_COEFFICIENTS,
+  opponentPace?: number,
+  availabilityModel?: AvailabilityModel,
+): MonteCarloSummary => {
+  const runs = clamp(Math.round(iterations), 200, 10000)
+  const random = createSeededRandom(seed)
+  const adjustedEdge = expectedMargin(team, tempoAdjustedScenario(team, scenario, opponentPace), opponentNetRating, coefficients)
+  const spread = gameMarginSpread(team, scenario, opponentPace)
+  const availability = createAvailabilitySampler(availabilityModel)
+
+  const margins: number[] = []
+  let wins = 0
+
+  for (let index = 0; index < runs; index++) {
+    const lineupShift = availability.sampleShift(random)
+    const variance = randomNormal(random) * spread
+    const margin = adjustedEdge + lineupShift + variance
+    margins.push(margin)
+    availability.record(adjustedEdge + variance)
+    if (margin > 0) {
+      wins += 1
+    }
   }
 
-  if (scenario.turnoverDelta > 1) {
-    recommendations.push({
-      title: 'Prioritize low-risk sets',
-      detail: 'Run more two-man actions and reduce cross-court passing against pressure.',
-      impact: Number((scenario.turnoverDelta * 2.5 + 2).toFixed(1)),
-    })
+  return summarizeMargins(margins, wins, seed, availability)
+}
+
+export const LEAGUE_AVERAGE_RATING = 114
+// eFG% gained per point of scenario shooting delta in the possession model.
+export const EFG_PER_SHOOTING_DELTA = 0.005
+const LEAGUE_AVERAGE_EFG = 0.54
+const LEAGUE_AVERAGE_REBOUNDS = 44
+const LEAGUE_TURNOVER_RATE = 0.13
+const BASE_OFFENSIVE_REBOUND_RATE = 0.26
+const THREE_POINT_ATTEMPT_RATE = 0.38
+const FREE_THROW_TRIP_RATE = 0.09
+const FREE_THROW_PCT = 0.78
+
+const emptyBoxScore = (): BoxScoreTotals => ({
+  possessions: 0,
+  points: 0,
+  fieldGoalsMade: 0,
+  fieldGoalAttempts: 0,
+  threesMade: 0,
+  freeThrowsMade: 0,
+  turnovers: 0,
+  offensiveRebounds: 0,
+  effectiveFgPct: 0,
+})
+
+// eFG% is split into 2P%/3P% with a fixed shot mix and a 3P% that sits at ~70% of 2P%.
+const shootingSplit = (efg: number) => {
+  const twoPointPct = efg / (1 - THREE_POINT_ATTEMPT_RATE + THREE_POINT_ATTEMPT_RATE * 1.05)
+  return { twoPointPct, threePointPct: twoPointPct * 0.7 }
+}
+
+const playPossession = (profile: PossessionProfile, random: () => number, totals: BoxScoreTotals) => {
+  totals.possessions += 1
+
+  if (random() < profile.turnoverRate) {
+    totals.turnovers += 1
+    return 0
   }
 
-  if (scenario.shootingDelta < 0) {
-    recommendations.push({
-      title: 'Shift shot profile inward',
-      detail: 'Compensate for cold perimeter shooting with paint touches and cut actions.',
-      impact: Number((Math.abs(scenario.shootingDelta) * 2.1 + 1.5).toFixed(1)),
-    })
+  const { twoPointPct, threePointPct } = shootingSplit(profile.efg)
+
+  for (let attempt = 0; attempt < 4; attempt++) {
+    if (random() < FREE_THROW_TRIP_RATE) {
+      const made = (random() < FREE_THROW_PCT ? 1 : 0) + (random() < FREE_THROW_PCT ? 1 : 0)
+      totals.freeThrowsMade += made
+      return made
+    }
+
+    const isThree = random() < THREE_POINT_ATTEMPT_RATE
+    totals.fieldGoalAttempts += 1
+
+    if (random() < (isThree ? threePointPct : twoPointPct)) {
+      totals.fieldGoalsMade += 1
+      if (isThree) {
+        totals.threesMade += 1
+        return 3
+      }
+      return 2
+    }
+
+    if (random() >= profile.offensiveReboundRate) {
+      return 0
+    }
+    totals.offensiveRebounds += 1
   }
 
-  if (calculateNetRating(team) < opponentNetRating) {
-    recommendations.push({
-      title: 'Defensive rebounding emphasis',
-      detail: 'Limit opponent second-chance points by tagging crashers and securing long rebounds.',
-      impact: 6.8,
-    })
+  return 0
+}
+
+const averageBoxScore = (totals: BoxScoreTotals, games: number): BoxScoreTotals => ({
+  possessions: Number((totals.possessions / games).toFixed(1)),
+  points: Number((totals.points / games).toFixed(1)),
+  fieldGoalsMade: Number((totals.fieldGoalsMade / games).toFixed(1)),
+  fieldGoalAttempts: Number((totals.fieldGoalAttempts / games).toFixed(1)),
+  threesMade: Number((totals.threesMade / games).toFixed(1)),
+  freeThrowsMade: Number((totals.freeThrowsMade / games).toFixed(1)),
+  turnovers: Number((totals.turnovers / games).toFixed(1)),
+  offensiveRebounds: Number((totals.offensiveRebounds / games).toFixed(1)),
+  effectiveFgPct:
+    totals.fieldGoalAttempts > 0
+      ? Number(((totals.fieldGoalsMade + 0.5 * totals.threesMade) / totals.fieldGoalAttempts).toFixed(3))
+      : 0,
+})
+
+/**
+ * Per-possession rates for both sides of a matchup: our game-log averages shifted by the scenario and
+ * the opponent's defense, and the opponent's offense against ours. Unscouted opponents are league average.
+ */
+export const buildPossessionProfiles = (
+  team: TeamProfile,
+  games: GameSample[],
+  scenario: ScenarioInputs,
+  opponent: TeamCsvRow | null,
+) => {
+  const sample = games.length > 0 ? games : null
+  const average = (pick: (game: GameSample) => number, fallback: number) =>
+    sample ? sample.reduce((sum, game) => sum + pick(game), 0) / sample.length : fallback
+
+  const opponentOffense = opponent?.offensiveRating ?? LEAGUE_AVERAGE_RATING
+  const opponentDefense = opponent?.defensiveRating ?? LEAGUE_AVERAGE_RATING
+  const opponentPace = opponent?.pace ?? LEAGUE_AVERAGE_PACE
+
+  const ourPace = average((game) => game.pace, team.pace) + scenario.paceDelta
+  const possessionsPerTeam = Math.max(70, Math.round((ourPace + opponentPace) / 2))
+  const ourRebounding = average((game) => game.rebounding, LEAGUE_AVERAGE_REBOUNDS)
+  const ourTurnoverRate = clamp(
+    (average((game) => game.turnovers, LEAGUE_TURNOVER_RATE * LEAGUE_AVERAGE_PACE) + scenario.turnoverDelta) / ourPace,
+    0.04,
+    0.3,
+  )
+
+  // A rating point moves points-per-possession by 0.01; spread that across the shots that survive turnovers.
+  // Defensive ratings are points allowed, so a defense rated above average raises our eFG% and one below lowers it.
+  const ratingToEfg = (ratingEdge: number, turnoverRate: number) => ratingEdge / 100 / (2 * (1 - turnoverRate))
+
+  const ourProfile: PossessionProfile = {
+    efg: clamp(
+      average((game) => game.efg, LEAGUE_AVERAGE_EFG) +
+        scenario.shootingDelta * EFG_PER_SHOOTING_DELTA +
+        ratingToEfg(opponentDefense - LEAGUE_AVERAGE_RATING, ourTurnoverRate),
+      0.35,
+      0.75,
+    ),
+    turnoverRate: ourTurnoverRate,
+    offensiveReboundRate: clamp(BASE_OFFENSIVE_REBOUND_RATE * (ourRebounding / LEAGUE_AVERAGE_REBOUNDS), 0.1, 0.45),
   }
 
-  if (recommendations.length === 0) {
-    recommendations.push({
-      title: 'Maintain current game model',
-      detail: 'Current setup is balanced. Prioritize execution consistency and rotation discipline.',
-      impact: 4.5,
-    })
+  // Scouted four-factor columns replace the rating-based estimates; a scouted eFG% still moves with our defense.
+  const opponentTurnoverRate = opponent?.turnoverRate ?? LEAGUE_TURNOVER_RATE
+  const opponentProfile: PossessionProfile = {
+    efg: clamp(
+      opponent?.efg === undefined
+        ? LEAGUE_AVERAGE_EFG +
+            ratingToEfg(opponentOffense + team.defensiveRating - 2 * LEAGUE_AVERAGE_RATING, opponentTurnoverRate)
+        : opponent.efg + ratingToEfg(team.defensiveRating - LEAGUE_AVERAGE_RATING, opponentTurnoverRate),
+      0.35,
+      0.75,
+    ),
+    turnoverRate: opponentTurnoverRate,
+    offensiveReboundRate:
+      opponent?.offensiveReboundRate ??
+      clamp(BASE_OFFENSIVE_REBOUND_RATE * (LEAGUE_AVERAGE_REBOUNDS / ourRebounding), 0.1, 0.45),
   }
 
-  return recommendations.sort((left, right) => right.impact - left.impact)
+  return { ourProfile, opponentProfile, possessionsPerTeam }
 }
 
-const applyOpponentPenalty = (probability: number, opponentNetRating: number) => {
-  const penalty = opponentNetRating * 0.7
+export const simulatePossessionGames = (
+  team: TeamProfile,
+  games: GameSample[],
+  scenario: ScenarioInputs,
+  opponent: TeamCsvRow | null,
+  iterations: number,
+  seed = DEFAULT_SIMULATION_SEED,
+  availabilityModel?: AvailabilityModel,
+): PossessionSimulationSummary => {
+  const runs = clamp(Math.round(iterations), 200, 10000)
+  const random = createSeededRandom(seed)
+  const { ourProfile, opponentProfile, possessionsPerTeam } = buildPossessionProfiles(team, games, scenario, opponent)
+
+  const ourTotals = emptyBoxScore()
+  const opponentTotals = emptyBoxScore()
+  const availability = createAvailabilitySampler(availabilityModel)
+  const margins: number[] = []
+  let wins = 0
+
+  for (let index = 0; index < runs; index++) {
+    // A missing starter shifts the final margin by the contingency lineup's cost rather than re-deriving the four factors.
+    const lineupShift = availability.sampleShift(random)
+    let ourPoints = 0
+    let opponentPoints = 0
+
+    for (let possession = 0; possession < possessionsPerTeam; possession++) {
+      ourPoints += playPossession(ourProfile, random, ourTotals)
+      opponentPoints += playPossession(opponentProfile, random, opponentTotals)
+    }
+
+    ourTotals.points += ourPoints
+    opponentTotals.points += opponentPoints
+
+    // Ties go to a coin-flip overtime decided by a single possession's worth of points.
+    const rawMargin = ourPoints - opponentPoints + lineupShift
+    const margin = rawMargin === 0 ? (random() < 0.5 ? 1 : -1) : rawMargin
+    margins.push(margin)
+    availability.record(ourPoints - opponentPoints)
+    if (margin > 0) {
+      wins += 1
+    }
+  }
+
+  return {
+    ...summarizeMargins(margins, wins, seed, availability),
+    boxScore: {
+      team: averageBoxScore(ourTotals, runs),
+      opponent: averageBoxScore(opponentTotals, runs),
+    },
+  }
+}
+
+export const applyOpponentPenalty = (
+  probability: number,
+  opponentNetRating: number,
+  coefficients = DEFAULT_MODEL_COEFFICIENTS,
+) => {
+  const penalty = opponentNetRating * (coefficients.win.opponentPenalty ?? 0)
   return clamp(probability - penalty, 1, 99)
 }
 
+/** Win probability against a specific opponent, the number shown as "Win %" on candidate cards. */
+export const projectMatchupWinProbability = (
+  team: TeamProfile,
+  scenario: ScenarioInputs,
+  opponentNetRating: number,
+  coefficients = DEFAULT_MODEL_COEFFICIENTS,
+  opponentPace?: number,
+) =>
+  applyOpponentPenalty(
+    projectWinProbability(team, tempoAdjustedScenario(team, scenario, opponentPace), coefficients, opponentNetRating),
+    opponentNetRating,
+    coefficients,
+  )
+
+/** The same projection before rounding and clamping, for searches that need a continuous curve. */
+export const matchupWinProbabilityCurve = (
+  team: TeamProfile,
+  scenario: ScenarioInputs,
+  opponentNetRating: number,
+  coefficients = DEFAULT_MODEL_COEFFICIENTS,
+  opponentPace?: number,
+) =>
+  sigmoid(winModelLogit(team, tempoAdjustedScenario(team, scenario, opponentPace), opponentNetRating, coefficients)) *
+    100 -
+  opponentNetRating * (coefficients.win.opponentPenalty ?? 0)
+
+// Scenario units each factor is nudged by in `calculateScenarioSensitivity`.
+export const SENSITIVITY_STEP = 2
+
 export const calculateScenarioSensitivity = (
   team: TeamProfile,
   scenario: ScenarioInputs,
   opponentNetRating: number,
+  coefficients = DEFAULT_MODEL_COEFFICIENTS,
+  opponentPace?: number,
 ): SensitivityImpact[] => {
-  const baseline = applyOpponentPenalty(projectWinProbability(team, scenario), opponentNetRating)
-  const step = 2
+  const baseline = projectMatchupWinProbability(team, scenario, opponentNetRating, coefficients, opponentPace)
+  const step = SENSITIVITY_STEP
 
-  const paceShifted = applyOpponentPenalty(
-    projectWinProbability(team, { ...scenario, paceDelta: scenario.paceDelta + step }),
+  const paceShifted = projectMatchupWinProbability(
+    team,
+    { ...scenario, paceDelta: scenario.paceDelta + step },
     opponentNetRating,
+    coefficients,
+    opponentPace,
   )
-  const shootingShifted = applyOpponentPenalty(
-    projectWinProbability(team, { ...scenario, shootingDelta: scenario.shootingDelta + step }),
+  const shootingShifted = projectMatchupWinProbability(
+    team,
+    { ...scenario, shootingDelta: scenario.shootingDelta + step },
     opponentNetRating,
+    coefficients,
+    opponentPace,
   )
-  const turnoverShifted = applyOpponentPenalty(
-    projectWinProbability(team, { ...scenario, turnoverDelta: scenario.turnoverDelta + step }),
+  const turnoverShifted = projectMatchupWinProbability(
+    team,
+    { ...scenario, turnoverDelta: scenario.turnoverDelta + step },
     opponentNetRating,
+    coefficients,
+    opponentPace,
   )
 
   return [
@@ -354,39 +1113,17 @@ export const evaluateLineupChemistry = (lineup: Player[]): LineupChemistry => {
   }
 }
 
-export const detectGameAnomalies = (games: GameSample[]): GameAnomaly[] => {
-  if (games.length === 0) {
-    return []
-  }
-
-  const differences = games.map((game) => game.pointsFor - game.pointsAgainst)
-  const mean = differences.reduce((sum, value) => sum + value, 0) / differences.length
-  const variance = differences.reduce((sum, value) => sum + (value - mean) ** 2, 0) / differences.length
-  const stdDev = Math.sqrt(variance) || 1
+export const teamFourFactorColumns: FourFactor[] = ['efg', 'turnoverRate', 'offensiveReboundRate', 'freeThrowRate']
 
-  return games
-    .map((game) => {
-      const diff = game.pointsFor - game.pointsAgainst
-      const zScore = (diff - mean) / stdDev
-      const anomalyScore = Math.abs(zScore) * 100
-      let label = 'Normal'
-
-      if (zScore >= 1.2) {
-        label = 'Positive Outlier'
-      } else if (zScore <= -1.2) {
-        label = 'Negative Outlier'
-      }
-
-      return {
-        game: game.game,
-        opponent: game.opponent,
-        anomalyScore: Number(anomalyScore.toFixed(1)),
-        label,
-      }
-    })
-    .sort((left, right) => right.anomalyScore - left.anomalyScore)
-    .slice(0, 4)
-}
+/** The scouted four-factor rates in a team row; blank or out-of-range cells are left out so league values stand in. */
+export const readTeamFourFactors = (row: Record<string, unknown>): Partial<Record<FourFactor, number>> =>
+  Object.fromEntries(
+    teamFourFactorColumns.flatMap((column) => {
+      const cell = String(row[column] ?? '').trim()
+      const value = Number(cell)
+      return cell !== '' && value >= 0 && value <= 1 ? [[column, value]] : []
+    }),
+  )
 
 export const parseTeamCsv = (text: string): TeamCsvRow[] => {
   const lines = text.split(/\r?\n/).filter(Boolean)
@@ -394,7 +1131,8 @@ export const parseTeamCsv = (text: string): TeamCsvRow[] => {
     return []
   }
 
-  const [, ...rows] = lines
+  const [header, ...rows] = lines
+  const columns = header.split(',').map((cell) => cell.trim())
 
   return rows
     .map((row) => row.split(','))
@@ -404,10 +1142,175 @@ export const parseTeamCsv = (text: string): TeamCsvRow[] => {
       offensiveRating: Number(cells[1]),
       defensiveRating: Number(cells[2]),
       pace: Number(cells[3]),
+      ...readTeamFourFactors(Object.fromEntries(columns.map((column, index) => [column, cells[index]]))),
     }))
     .filter((row) => !Number.isNaN(row.offensiveRating) && !Number.isNaN(row.defensiveRating) && !Number.isNaN(row.pace))
 }
 
+const rosterNumericFields = [
+  'salary',
+  'minutes',
+  'points',
+  'assists',
+  'rebounds',
+  'steals',
+  'blocks',
+  'turnovers',
+  'fgPct',
+  'threePct',
+  'usage',
+] as const
+
+export const rosterCsvColumns = ['id', 'name', 'position', 'team', ...rosterNumericFields]
+
+// Row 1 is the header, so data rows start at 2 to match what the user sees in a spreadsheet.
+// Pass the parser's line numbers when blank lines were skipped.
+export const validateRosterRows = (
+  rows: Record<string, unknown>[],
+  lines: number[] = rows.map((_, index) => index + 2),
+): RosterImport => {
+  const players: Player[] = []
+  const errors: CsvRowError[] = []
+  const seenIds = new Set<string>()
+
+  rows.forEach((raw, index) => {
+    const row = lines[index]
+    const problems: string[] = []
+    const text = (key: string) => String(raw[key] ?? '').trim()
+
+    const id = text('id')
+    const name = text('name')
+    const position = text('position').toUpperCase()
+    const team = text('team')
+
+    if (!id) {
+      problems.push('missing id')
+    } else if (seenIds.has(id)) {
+      problems.push(`duplicate id "${id}"`)
+    }
+    // Rejected rows still claim their id, so a second row reusing it is reported as a duplicate.
+    seenIds.add(id)
+    if (!name) {
+      problems.push('missing name')
+    }
+    if (position !== 'G' && position !== 'F' && position !== 'C') {
+      problems.push(`position must be G, F or C (got "${text('position')}")`)
+    }
+
+    // Optional secondary positions, e.g. "G/F"; the primary position is always eligible.
+    const extraPositions = text('eligiblePositions')
+      .toUpperCase()
+      .split(/[/|; ]+/)
+      .filter(Boolean)
+    const invalidPositions = extraPositions.filter((entry) => entry !== 'G' && entry !== 'F' && entry !== 'C')
+    if (invalidPositions.length > 0) {
+      problems.push(`eligiblePositions must use G, F or C (got "${invalidPositions.join(', ')}")`)
+    }
+
+    const stats = {} as Record<(typeof rosterNumericFields)[number], number>
+    rosterNumericFields.forEach((field) => {
+      const value = Number(text(field))
+      if (text(field) === '' || Number.isNaN(value)) {
+        problems.push(`${field} is not a number`)
+      } else if (value < 0) {
+        problems.push(`${field} cannot be negative`)
+      } else if ((field === 'fgPct' || field === 'threePct') && value > 1) {
+        problems.push(`${field} must be a fraction between 0 and 1`)
+      } else if (field === 'minutes' && value > 48) {
+        problems.push('minutes cannot exceed 48')
+      }
+      stats[field] = value
+    })
+
+    if (problems.length > 0) {
+      errors.push({ row, message: problems.join('; ') })
+      return
+    }
+
+    const eligiblePositions = [...new Set([position, ...extraPositions])] as Position[]
+    players.push({
+      id,
+      name,
+      position: position as Position,
+      ...(eligiblePositions.length > 1 ? { eligiblePositions } : {}),
+      team,
+      ...stats,
+    })
+  })
+
+  return { players, errors }
+}
+
+const gameLogNumericFields = ['pointsFor', 'pointsAgainst', 'pace', 'efg', 'turnovers', 'rebounding'] as const
+
+export const gameLogColumns = ['game', 'opponent', ...gameLogNumericFields]
+
+// Rows are numbered like `validateRosterRows`; JSON imports pass entry numbers instead.
+export const validateGameLogRows = (
+  rows: Record<string, unknown>[],
+  lines: number[] = rows.map((_, index) => index + 2),
+): GameLogImport => {
+  const games: GameSample[] = []
+  const errors: CsvRowError[] = []
+  const seenIds = new Set<string>()
+
+  rows.forEach((raw, index) => {
+    const row = lines[index]
+    const problems: string[] = []
+    const text = (key: string) => String(raw[key] ?? '').trim()
+
+    const game = text('game')
+    const opponent = text('opponent')
+
+    if (!game) {
+      problems.push('missing game id')
+    } else if (seenIds.has(game)) {
+      problems.push(`duplicate game id "${game}"`)
+    }
+    seenIds.add(game)
+    if (!opponent) {
+      problems.push('missing opponent')
+    }
+
+    const stats = {} as Record<(typeof gameLogNumericFields)[number], number>
+    gameLogNumericFields.forEach((field) => {
+      const value = Number(text(field))
+      if (text(field) === '' || Number.isNaN(value)) {
+        problems.push(`${field} is not a number`)
+      } else if (value < 0) {
+        problems.push(`${field} cannot be negative`)
+      } else if (field === 'efg' && value > 1) {
+        problems.push('efg must be a fraction between 0 and 1')
+      }
+      stats[field] = value
+    })
+
+    // Optional four-factor column: free throws made per field goal attempt.
+    const freeThrowText = text('freeThrowRate')
+    const freeThrowRate = Number(freeThrowText)
+    if (freeThrowText !== '' && (Number.isNaN(freeThrowRate) || freeThrowRate < 0 || freeThrowRate > 1)) {
+      problems.push('freeThrowRate must be a fraction between 0 and 1')
+    }
+
+    if (problems.length > 0) {
+      errors.push({ row, message: problems.join('; ') })
+      return
+    }
+
+    games.push({ game, opponent, ...stats, ...(freeThrowText !== '' ? { freeThrowRate } : {}) })
+  })
+
+  return { games, errors }
+}
+
+// Incoming games replace stored games with the same id; new ids are appended in upload order.
+export const mergeGameLogs = (existing: GameSample[], incoming: GameSample[]) => {
+  const incomingById = new Map(incoming.map((game) => [game.game, game]))
+  const merged = existing.map((game) => incomingById.get(game.game) ?? game)
+  const existingIds = new Set(existing.map((game) => game.game))
+  return [...merged, ...incoming.filter((game) => !existingIds.has(game.game))]
+}
+
 export const rankTeamsByContenderScore = (teams: TeamCsvRow[]) => {
   return teams
     .map((team) => {
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest'
+import { detectGameAnomalies } from './anomalies'
+import type { GameSample } from '../types'
+
+const steadyGame = (index: number): GameSample => ({
+  game: `G${index + 1}`,
+  opponent: 'Phoenix',
+  pointsFor: 113,
+  pointsAgainst: 110,
+  pace: 100,
+  efg: 0.53,
+  turnovers: 13,
+  rebounding: 45,
+})
+
+const steadyLog = (count: number) => Array.from({ length: count }, (_, index) => steadyGame(index))
+
+const scoredGame = (games: GameSample[], id: string) => detectGameAnomalies(games, []).find((item) => item.game === id)
+
+describe('detectGameAnomalies', () => {
+  it('scores each game against the games before it only', () => {
+    const games = steadyLog(8)
+    expect(scoredGame(games, 'G3')).toBeUndefined()
+    expect(scoredGame(games, 'G4')?.label).toBe('Normal')
+
+    const blowout = games.map((game, index) => (index === 7 ? { ...game, pointsFor: 150 } : game))
+    expect(detectGameAnomalies(blowout, []).filter((item) => item.game !== 'G8')).toEqual(
+      detectGameAnomalies(games, []).filter((item) => item.game !== 'G8'),
+    )
+  })
+
+  it('labels a game flagged mainly on pace as a tempo outlier', () => {
+    const games = steadyLog(8)
+    games[7] = { ...games[7], pace: 106, efg: 0.5 }
+    const anomaly = scoredGame(games, 'G8')
+    expect(anomaly?.label).toBe('Tempo Outlier')
+    expect(anomaly?.drivers.map((driver) => driver.factor)).toEqual(['pace', 'efg'])
+  })
+
+  it('reads good or bad from the largest flagged driver rather than the sum of directions', () => {
+    const games = steadyLog(8)
+    games[7] = { ...games[7], efg: 0.59, turnovers: 15.6, rebounding: 40.6 }
+    const anomaly = scoredGame(games, 'G8')
+    expect(anomaly?.drivers[0].factor).toBe('efg')
+    expect(anomaly?.label).toBe('Positive Outlier')
+  })
+})
@@ -0,0 +1,132 @@
+import { LEAGUE_AVERAGE_PACE, LEAGUE_AVERAGE_RATING } from './analytics'
+import type { AnomalyDriver, AnomalyFactor, GameAnomaly, GameSample, TeamCsvRow } from '../types'
+
+export const ANOMALY_FACTOR_LABELS: Record<AnomalyFactor, string> = {
+  pace: 'Pace',
+  efg: 'eFG%',
+  turnovers: 'Turnovers',
+  rebounding: 'Rebounding',
+  margin: 'Margin',
+}
+
+const ANOMALY_FACTORS = Object.keys(ANOMALY_FACTOR_LABELS) as AnomalyFactor[]
+
+// The baseline is up to the previous ten games; a game is only scored once three games precede it.
+export const ROLLING_WINDOW = 10
+const MIN_BASELINE = 3
+// A game is flagged once any factor sits this many robust standard deviations from expectation, and a
+// factor is named as a driver from a lower bar so near-misses still explain the flag.
+export const OUTLIER_THRESHOLD = 2
+const DRIVER_THRESHOLD = 1.5
+// Scales MAD to a standard deviation for normally distributed data.
+const MAD_TO_SIGMA = 1.4826
+// With a handful of games the MAD can collapse to zero; each factor keeps a realistic game-to-game spread.
+const MIN_SPREAD: Record<AnomalyFactor, number> = { pace: 1, efg: 0.015, turnovers: 1.2, rebounding: 2, margin: 5 }
+// +1 when a higher value is good for us, -1 when it is bad, 0 for pace, which is a style change.
+const FACTOR_DIRECTION: Record<AnomalyFactor, number> = { pace: 0, efg: 1, turnovers: -1, rebounding: 1, margin: 1 }
+
+// eFG% moves about half a point per point of opponent defensive rating.
+const EFG_PER_DEFENSIVE_RATING = 0.005
+
+const factorValue = (game: GameSample, factor: AnomalyFactor) =>
+  factor === 'margin' ? game.pointsFor - game.pointsAgainst : game[factor]
+
+/**
+ * What the opponent alone should do to each factor, relative to a league-average opponent. Stronger
+ * teams lower our margin, faster teams raise the pace by half their edge (tempo averages both sides)
+ * and weaker defenses raise our eFG%. Scouting ratings say nothing about turnovers or rebounding.
+ */
+const opponentEffect = (opponent: TeamCsvRow | undefined, factor: AnomalyFactor) => {
+  if (!opponent) {
+    return 0
+  }
+  if (factor === 'margin') {
+    return opponent.defensiveRating - opponent.offensiveRating
+  }
+  if (factor === 'pace') {
+    return (opponent.pace - LEAGUE_AVERAGE_PACE) / 2
+  }
+  if (factor === 'efg') {
+    return (opponent.defensiveRating - LEAGUE_AVERAGE_RATING) * EFG_PER_DEFENSIVE_RATING
+  }
+  return 0
+}
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((left, right) => left - right)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle]
+}
+
+const baselineIndices = (index: number) =>
+  Array.from({ length: Math.min(ROLLING_WINDOW, index) }, (_, offset) => index - 1 - offset)
+
+/** Good or bad night, read from the largest flagged driver; a game flagged mainly on pace is a style change. */
+const anomalyLabel = (named: AnomalyDriver[]) => {
+  const largest = named[0]
+  if (!largest || Math.abs(largest.deviation) < OUTLIER_THRESHOLD) {
+    return 'Normal'
+  }
+  const direction = largest.deviation * FACTOR_DIRECTION[largest.factor]
+  return direction > 0 ? 'Positive Outlier' : direction < 0 ? 'Negative Outlier' : 'Tempo Outlier'
+}
+
+/**
+ * Robust, opponent-adjusted outlier scan over pace, eFG%, turnovers, rebounding and margin. Each game
+ * is compared with a rolling baseline of the games before it: every baseline game is first stripped
+ * of its own opponent's effect, the median of what is left is the opponent-neutral expectation, and
+ * this game's opponent effect is added back. Spread is the MAD of the same adjusted values, so one
+ * blowout in the baseline does not widen the band for everyone else. A blowout of a weak team is
+ * expected to be a blowout and is not flagged.
+ *
+ * The anomaly score is the root sum of squared deviations across factors; drivers explain it factor by
+ * factor, largest first. The first three games have no baseline of their own and are not scored.
+ */
+export const detectGameAnomalies = (games: GameSample[], opponents: TeamCsvRow[]): GameAnomaly[] => {
+  if (games.length <= MIN_BASELINE) {
+    return []
+  }
+
+  const ratings = new Map(opponents.map((opponent) => [opponent.name.toLowerCase(), opponent]))
+  const scouting = games.map((game) => ratings.get(game.opponent.toLowerCase()))
+
+  return games
+    .map((game, index) => ({ game, index }))
+    .filter(({ index }) => index >= MIN_BASELINE)
+    .map(({ game, index }) => {
+      const baseline = baselineIndices(index)
+      const drivers = ANOMALY_FACTORS.map((factor): AnomalyDriver => {
+        const adjusted = baseline.map((position) => factorValue(games[position], factor) - opponentEffect(scouting[position], factor))
+        const center = median(adjusted)
+        const spread = Math.max(
+          MIN_SPREAD[factor],
+          MAD_TO_SIGMA * median(adjusted.map((value) => Math.abs(value - center))),
+        )
+        const expected = center + opponentEffect(scouting[index], factor)
+        const value = factorValue(game, factor)
+        const deviation = (value - expected) / spread
+        const digits = factor === 'efg' ? 3 : 1
+        return {
+          factor,
+          value: Number(value.toFixed(digits)),
+          expected: Number(expected.toFixed(digits)),
+          deviation: Number(deviation.toFixed(1)),
+          explanation: `${ANOMALY_FACTOR_LABELS[factor]} ${Math.abs(deviation).toFixed(1)}σ ${deviation >= 0 ? 'above' : 'below'} baseline`,
+        }
+      })
+
+      const named = drivers
+        .filter((driver) => Math.abs(driver.deviation) >= DRIVER_THRESHOLD)
+        .sort((left, right) => Math.abs(right.deviation) - Math.abs(left.deviation))
+
+      return {
+        game: game.game,
+        opponent: game.opponent,
+        anomalyScore: Number(Math.sqrt(drivers.reduce((sum, driver) => sum + driver.deviation ** 2, 0)).toFixed(1)),
+        label: anomalyLabel(named),
+        opponentAdjusted: scouting[index] !== undefined,
+        drivers: named,
+      }
+    })
+    .sort((left, right) => right.anomalyScore - left.anomalyScore)
+}
@@ -0,0 +1,80 @@
+import { MARGIN_STANDARD_DEVIATION, OBJECTIVE_TO_MARGIN, rankLineups } from './analytics'
+import type { AvailabilityModel, AvailabilityStatus, LineupConstraints, LineupResult, Player } from '../types'
+
+// Injury-report designations and the play probability each one carries by default.
+export const AVAILABILITY_PROBABILITY: Record<AvailabilityStatus, number> = {
+  available: 1,
+  probable: 0.75,
+  questionable: 0.5,
+  doubtful: 0.25,
+  out: 0,
+}
+
+export const AVAILABILITY_STATUSES = Object.keys(AVAILABILITY_PROBABILITY) as AvailabilityStatus[]
+
+/** The designation whose default probability is closest to a player's play probability. */
+export const availabilityStatus = (probability: number) =>
+  AVAILABILITY_STATUSES.reduce((closest, status) =>
+    Math.abs(AVAILABILITY_PROBABILITY[status] - probability) < Math.abs(AVAILABILITY_PROBABILITY[closest] - probability)
+      ? status
+      : closest,
+  )
+
+/**
+ * Availability for one lineup. Players with a play probability strictly between 0 and 1 are sampled
+ * in every Monte Carlo run; when a starter sits, the lineup is re-optimized without the absentees and
+ * the margin moves by the objective the contingency lineup gives up. Contingencies are cached per set
+ * of missing starters, so a lineup costs at most one search per combination.
+ */
+export const buildAvailabilityModel = (
+  roster: Player[],
+  budget: number,
+  constraints: LineupConstraints,
+  lineup: LineupResult,
+  playProbabilities: Record<string, number>,
+): AvailabilityModel | undefined => {
+  const players = roster
+    .filter((player) => !constraints.excludedPlayerIds.includes(player.id))
+    .map((player) => ({ id: player.id, name: player.name, playProbability: playProbabilities[player.id] ?? 1 }))
+    .filter((player) => player.playProbability > 0 && player.playProbability < 1)
+
+  if (players.length === 0 || lineup.lineup.length === 0) {
+    return undefined
+  }
+
+  const starterIds = new Set(lineup.lineup.map((player) => player.id))
+  const contingencies = new Map<string, number>()
+
+  return {
+    players,
+    marginShift: (absentIds) => {
+      const missing = absentIds.filter((playerId) => starterIds.has(playerId)).sort()
+      if (missing.length === 0) {
+        return 0
+      }
+
+      const key = missing.join('|')
+      const cached = contingencies.get(key)
+      if (cached !== undefined) {
+        return cached
+      }
+
+      const contingency = rankLineups(
+        roster,
+        budget,
+        {
+          ...constraints,
+          excludedPlayerIds: [...constraints.excludedPlayerIds, ...missing],
+          lockedPlayerIds: constraints.lockedPlayerIds.filter((playerId) => !missing.includes(playerId)),
+        },
+        1,
+      )[0]
+      // Without a legal contingency lineup the game is treated as a full standard deviation worse.
+      const shift = contingency
+        ? (contingency.objective - lineup.objective) * OBJECTIVE_TO_MARGIN
+        : -MARGIN_STANDARD_DEVIATION
+      contingencies.set(key, shift)
+      return shift
+    },
+  }
+}
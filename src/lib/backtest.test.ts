@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_MODEL_COEFFICIENTS, LEAGUE_AVERAGE_PACE, LEAGUE_AVERAGE_RATING } from './analytics'
+import { backtestWinModel, profileFromHistory } from './backtest'
+import { fitModelCoefficients, MIN_FIT_GAMES } from './modelFit'
+import { teamProfile } from '../data/mockData'
+import { createGameLog } from '../test/fixtures'
+
+const opponents = [{ name: 'Boston', offensiveRating: 120, defensiveRating: 110, pace: 98 }]
+
+describe('profileFromHistory', () => {
+  it('starts from league average and moves toward the games played', () => {
+    const empty = profileFromHistory(teamProfile, [])
+    expect(empty).toMatchObject({ offensiveRating: LEAGUE_AVERAGE_RATING, pace: LEAGUE_AVERAGE_PACE, recentForm: 0.5 })
+
+    const wins = createGameLog(12, 3).map((game) => ({ ...game, pointsFor: game.pointsAgainst + 10 }))
+    const profile = profileFromHistory(teamProfile, wins)
+    expect(profile.offensiveRating - profile.defensiveRating).toBeGreaterThan(5)
+    expect(profile.recentForm).toBeGreaterThan(0.8)
+  })
+})
+
+describe('backtestWinModel', () => {
+  const games = createGameLog(30, 5)
+
+  it('predicts each game only from the games before it', () => {
+    const flipped = games.map((game, index) =>
+      index === games.length - 1 ? { ...game, pointsFor: game.pointsAgainst - 30 } : game,
+    )
+    const original = backtestWinModel(teamProfile, games, opponents, 400, 1)
+    const changed = backtestWinModel(teamProfile, flipped, opponents, 400, 1)
+
+    expect(original.games).toHaveLength(games.length)
+    expect(changed.games.slice(0, -1)).toEqual(original.games.slice(0, -1))
+    expect(original.skippedGames).toBe(0)
+    expect(original.refit).toBe(false)
+  })
+
+  it('refits a fitted model on earlier games and skips games without enough history', () => {
+    const fitted = fitModelCoefficients(teamProfile, games, opponents, 1, '2026-01-01T00:00:00.000Z').coefficients
+    expect(fitted).not.toBeNull()
+
+    const report = backtestWinModel(teamProfile, games, opponents, 400, 1, fitted ?? DEFAULT_MODEL_COEFFICIENTS)
+    const truncated = backtestWinModel(teamProfile, games.slice(0, -1), opponents, 400, 1, fitted ?? DEFAULT_MODEL_COEFFICIENTS)
+
+    expect(report.refit).toBe(true)
+    expect(report.skippedGames).toBe(MIN_FIT_GAMES)
+    expect(report.games[0].game).toBe(`G${MIN_FIT_GAMES + 1}`)
+    expect(truncated.games).toEqual(report.games.slice(0, -1))
+  })
+
+  it('scores a coin flip at a Brier of 0.25', () => {
+    const evenOpponents = createGameLog(8, 9).map((game, index) => ({
+      ...game,
+      pointsFor: game.pointsAgainst + (index % 2 === 0 ? 5 : -5),
+    }))
+    const report = backtestWinModel({ ...teamProfile, recentForm: 0 }, evenOpponents, [], 400, 1, {
+      ...DEFAULT_MODEL_COEFFICIENTS,
+      win: { ...DEFAULT_MODEL_COEFFICIENTS.win, netRating: 0, recentForm: 0 },
+    })
+
+    expect(report.models[0].brierScore).toBe(0.25)
+  })
+})
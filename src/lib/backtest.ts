@@ -0,0 +1,197 @@
+import {
+  DEFAULT_MODEL_COEFFICIENTS,
+  LEAGUE_AVERAGE_PACE,
+  LEAGUE_AVERAGE_RATING,
+  projectMatchupWinProbability,
+  runMonteCarloSimulation,
+} from './analytics'
+import { fitModelCoefficients } from './modelFit'
+import type {
+  BacktestGame,
+  BacktestModelScore,
+  BacktestReport,
+  CalibrationBucket,
+  GameSample,
+  ModelCoefficients,
+  ScenarioInputs,
+  TeamCsvRow,
+  TeamProfile,
+} from '../types'
+
+export type BacktestInput = {
+  team: TeamProfile
+  games: GameSample[]
+  opponents: TeamCsvRow[]
+  iterations: number
+  seed: number
+  coefficients: ModelCoefficients
+}
+
+export type BacktestRequest = {
+  type: 'run'
+  runId: number
+  input: BacktestInput
+}
+
+export type BacktestResponse =
+  | { type: 'result'; runId: number; report: BacktestReport }
+  | { type: 'error'; runId: number; message: string }
+
+const CALIBRATION_BUCKETS = 10
+// League-average games blended into a short history, so the first games are not judged on one result.
+const PRIOR_GAMES = 5
+const FORM_WINDOW = 10
+// Probabilities are clipped before the log so a single confident miss cannot make the loss infinite.
+const LOG_LOSS_EPSILON = 0.01
+
+const neutralScenario: ScenarioInputs = { paceDelta: 0, shootingDelta: 0, turnoverDelta: 0 }
+
+const round = (value: number, digits = 3) => Number(value.toFixed(digits))
+
+const scoreModel = (model: string, predictions: { probability: number; won: boolean }[]): BacktestModelScore => {
+  const count = Math.max(1, predictions.length)
+  let brier = 0
+  let logLoss = 0
+  let correct = 0
+
+  predictions.forEach(({ probability, won }) => {
+    const outcome = won ? 1 : 0
+    const clipped = Math.min(1 - LOG_LOSS_EPSILON, Math.max(LOG_LOSS_EPSILON, probability))
+    brier += (probability - outcome) ** 2
+    logLoss -= outcome * Math.log(clipped) + (1 - outcome) * Math.log(1 - clipped)
+    if ((probability >= 0.5) === won) {
+      correct += 1
+    }
+  })
+
+  return {
+    model,
+    brierScore: round(brier / count),
+    logLoss: round(logLoss / count),
+    accuracy: round((correct / count) * 100, 1),
+  }
+}
+
+const bucketIndex = (probability: number) => Math.min(CALIBRATION_BUCKETS - 1, Math.floor(probability * CALIBRATION_BUCKETS))
+
+const buildCalibration = (games: BacktestGame[]): CalibrationBucket[] => {
+  const width = 100 / CALIBRATION_BUCKETS
+  const buckets = Array.from({ length: CALIBRATION_BUCKETS }, (_, index) => ({
+    projectedWins: 0,
+    projectedGames: 0,
+    monteWins: 0,
+    monteGames: 0,
+    index,
+  }))
+
+  games.forEach((game) => {
+    const projected = buckets[bucketIndex(game.projectedWinProbability / 100)]
+    projected.projectedGames += 1
+    projected.projectedWins += game.won ? 1 : 0
+
+    const monte = buckets[bucketIndex(game.monteWinRate / 100)]
+    monte.monteGames += 1
+    monte.monteWins += game.won ? 1 : 0
+  })
+
+  return buckets.map((bucket) => ({
+    bucket: `${bucket.index * width}–${(bucket.index + 1) * width}%`,
+    midpoint: bucket.index * width + width / 2,
+    projected: bucket.projectedGames > 0 ? round((bucket.projectedWins / bucket.projectedGames) * 100, 1) : null,
+    projectedGames: bucket.projectedGames,
+    monte: bucket.monteGames > 0 ? round((bucket.monteWins / bucket.monteGames) * 100, 1) : null,
+    monteGames: bucket.monteGames,
+  }))
+}
+
+/** The team as it looked before a game: ratings, pace and form from the earlier games only. */
+export const profileFromHistory = (team: TeamProfile, history: GameSample[]): TeamProfile => {
+  const blend = (values: number[], prior: number) =>
+    (prior * PRIOR_GAMES + values.reduce((sum, value) => sum + value, 0)) / (PRIOR_GAMES + values.length)
+
+  return {
+    ...team,
+    offensiveRating: blend(history.map((game) => (game.pointsFor / game.pace) * 100), LEAGUE_AVERAGE_RATING),
+    defensiveRating: blend(history.map((game) => (game.pointsAgainst / game.pace) * 100), LEAGUE_AVERAGE_RATING),
+    pace: blend(history.map((game) => game.pace), LEAGUE_AVERAGE_PACE),
+    recentForm: blend(history.slice(-FORM_WINDOW).map((game) => (game.pointsFor > game.pointsAgainst ? 1 : 0)), 0.5),
+  }
+}
+
+/**
+ * Replays the game log walk-forward against what the models would have said before tip-off: a
+ * profile built from the earlier games, a neutral scenario and the opponent's scouting ratings
+ * (league average when the opponent was not scouted). A fitted model is refit on the earlier games
+ * too, so no game is scored by coefficients that saw it; games before a fit is possible are skipped.
+ * Both the closed-form win projection and the Monte Carlo win rate are scored.
+ */
+export const backtestWinModel = (
+  team: TeamProfile,
+  games: GameSample[],
+  opponents: TeamCsvRow[],
+  iterations: number,
+  seed: number,
+  coefficients = DEFAULT_MODEL_COEFFICIENTS,
+): BacktestReport => {
+  const ratings = new Map(opponents.map((opponent) => [opponent.name.toLowerCase(), opponent]))
+  const refit = coefficients.fittedAt !== null
+
+  const replayed = games.flatMap((game, index): BacktestGame[] => {
+    const history = games.slice(0, index)
+    const profile = profileFromHistory(team, history)
+    const model = refit
+      ? fitModelCoefficients(profile, history, opponents, 0, coefficients.fittedAt ?? '').coefficients
+      : coefficients
+    if (!model) {
+      return []
+    }
+
+    const opponent = ratings.get(game.opponent.toLowerCase())
+    const opponentNetRating = opponent ? opponent.offensiveRating - opponent.defensiveRating : 0
+    const monte = runMonteCarloSimulation(
+      profile,
+      neutralScenario,
+      opponentNetRating,
+      iterations,
+      seed,
+      model,
+      opponent?.pace,
+    )
+    const actualMargin = game.pointsFor - game.pointsAgainst
+
+    return [
+      {
+        game: game.game,
+        opponent: game.opponent,
+        opponentNetRating: round(opponentNetRating, 1),
+        projectedWinProbability: projectMatchupWinProbability(profile, neutralScenario, opponentNetRating, model, opponent?.pace),
+        monteWinRate: monte.winRate,
+        projectedMargin: monte.averageMargin,
+        actualMargin,
+        won: actualMargin > 0,
+      },
+    ]
+  })
+
+  const marginError =
+    replayed.reduce((sum, game) => sum + Math.abs(game.projectedMargin - game.actualMargin), 0) / Math.max(1, replayed.length)
+
+  return {
+    games: replayed,
+    models: [
+      scoreModel(
+        'Win projection',
+        replayed.map((game) => ({ probability: game.projectedWinProbability / 100, won: game.won })),
+      ),
+      scoreModel(
+        'Monte Carlo',
+        replayed.map((game) => ({ probability: game.monteWinRate / 100, won: game.won })),
+      ),
+    ],
+    marginMeanAbsoluteError: round(marginError, 2),
+    calibration: buildCalibration(replayed),
+    scoutedGames: replayed.filter((game) => ratings.has(game.opponent.toLowerCase())).length,
+    skippedGames: games.length - replayed.length,
+    refit,
+  }
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest'
+import { mergeGameLogs, validateGameLogRows, validateRosterRows } from './analytics'
+import { parseCsvRows } from './csv'
+
+describe('parseCsvRows', () => {
+  it('numbers rows by the file line they start on, past blank lines and quoted line breaks', () => {
+    const { rows, lines } = parseCsvRows('id,name\n1,a\n\n2,"b\nc"\r\n\n3,d\n')
+
+    expect(rows.map((row) => row.id)).toEqual(['1', '2', '3'])
+    expect(lines).toEqual([2, 4, 7])
+  })
+
+  it('reports roster errors on the line the user sees', () => {
+    const header = 'id,name,position,team,salary,minutes,points,assists,rebounds,steals,blocks,turnovers,fgPct,threePct,usage'
+    const valid = (id: string) => `${id},Player ${id},G,HCK,5000,30,18,4,5,1,0.5,2,0.47,0.36,0.24`
+    const { rows, lines } = parseCsvRows([header, valid('p1'), '', 'p2,,G,HCK,5000,30,18,4,5,1,0.5,2,0.47,0.36,0.24', '', valid('p2')].join('\n'))
+
+    const { players, errors } = validateRosterRows(rows, lines)
+    expect(players.map((player) => player.id)).toEqual(['p1'])
+    expect(errors).toEqual([
+      { row: 4, message: 'missing name' },
+      { row: 6, message: 'duplicate id "p2"' },
+    ])
+  })
+
+  it('reports game log errors on the line the user sees and flags duplicates of rejected games', () => {
+    const { rows, lines } = parseCsvRows(
+      [
+        'game,opponent,pointsFor,pointsAgainst,pace,efg,turnovers,rebounding',
+        'G1,Boston,110,104,99,0.55,12,45',
+        '',
+        'G2,Miami,108,101,98,1.4,13,44',
+        'G2,Miami,108,101,98,0.54,13,44',
+      ].join('\n'),
+    )
+
+    const { games, errors } = validateGameLogRows(rows, lines)
+    expect(games.map((game) => game.game)).toEqual(['G1'])
+    expect(errors).toEqual([
+      { row: 4, message: 'efg must be a fraction between 0 and 1' },
+      { row: 5, message: 'duplicate game id "G2"' },
+    ])
+  })
+})
+
+describe('mergeGameLogs', () => {
+  it('replaces games with the same id and appends new ones in upload order', () => {
+    const game = (id: string, pointsFor: number) => ({
+      game: id,
+      opponent: 'Boston',
+      pointsFor,
+      pointsAgainst: 100,
+      pace: 99,
+      efg: 0.54,
+      turnovers: 13,
+      rebounding: 44,
+    })
+
+    const merged = mergeGameLogs([game('G1', 100), game('G2', 101)], [game('G3', 110), game('G1', 120)])
+    expect(merged.map((entry) => [entry.game, entry.pointsFor])).toEqual([
+      ['G1', 120],
+      ['G2', 101],
+      ['G3', 110],
+    ])
+  })
+})
@@ -0,0 +1,48 @@
+import Papa from 'papaparse'
+
+export type CsvRows = {
+  rows: Record<string, unknown>[]
+  // The file line each row starts on, counting the header as line 1.
+  lines: number[]
+}
+
+const isLineBreak = (character: string | undefined) => character === '\n' || character === '\r'
+
+/**
+ * Parses a CSV with a header row and skips blank lines, keeping the line each row starts on so
+ * validation errors point at the line a spreadsheet shows rather than the row's index.
+ */
+export const parseCsvRows = (text: string): CsvRows => {
+  const rows: Record<string, unknown>[] = []
+  const lines: number[] = []
+  let position = 0
+  let line = 1
+
+  // Counts the line breaks up to `end`, treating \r\n as one.
+  const advance = (end: number) => {
+    for (; position < end; position++) {
+      if (text[position] === '\n' || (text[position] === '\r' && text[position + 1] !== '\n')) {
+        line += 1
+      }
+    }
+  }
+
+  Papa.parse<Record<string, unknown>>(text, {
+    header: true,
+    skipEmptyLines: true,
+    step: (result) => {
+      // Papa's cursor sits after the previous row (or on the header's line break before the first
+      // row); any blank lines it skipped come before this row starts.
+      let start = rows.length === 0 ? text.search(/[\r\n]|$/) : position
+      while (start < text.length && isLineBreak(text[start])) {
+        start += 1
+      }
+      advance(start)
+      rows.push(result.data)
+      lines.push(line)
+      advance(result.meta.cursor)
+    },
+  })
+
+  return { rows, lines }
+}
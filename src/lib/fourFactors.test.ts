@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest'
+import { parseTeamCsv } from './analytics'
+import { buildFourFactorsReport } from './fourFactors'
+import { teamProfile } from '../data/mockData'
+import { createGameLog } from '../test/fixtures'
+import type { FourFactor } from '../types'
+
+const games = createGameLog(12, 9).map((game, index) => ({ ...game, freeThrowRate: 0.2 + (index % 3) * 0.01 }))
+const rated = { name: 'Boston', offensiveRating: 116, defensiveRating: 111, pace: 98 }
+const scouted = { ...rated, efg: 0.56, turnoverRate: 0.11, offensiveReboundRate: 0.3, freeThrowRate: 0.25 }
+
+const rowFor = (report: ReturnType<typeof buildFourFactorsReport>, factor: FourFactor) =>
+  report.rows.find((row) => row.factor === factor)!
+
+describe('buildFourFactorsReport', () => {
+  it('falls back to league values and ratings and marks where each opponent rate came from', () => {
+    const unscouted = buildFourFactorsReport(teamProfile, games, null)
+    expect(unscouted.opponent).toBe('League average')
+    expect(unscouted.rows.map((row) => row.opponentSource)).toEqual(['league', 'league', 'league', 'league'])
+
+    const report = buildFourFactorsReport(teamProfile, games, rated)
+    expect(report.rows.map((row) => row.opponentSource)).toEqual(['ratings', 'league', 'league', 'league'])
+    expect(rowFor(report, 'freeThrowRate').opponent).toBe(0.19)
+  })
+
+  it('uses the scouted four-factor columns of the selected opponent', () => {
+    const report = buildFourFactorsReport(teamProfile, games, scouted)
+    expect(report.rows.map((row) => row.opponentSource)).toEqual(['scouted', 'scouted', 'scouted', 'scouted'])
+    expect(rowFor(report, 'turnoverRate').opponent).toBe(0.11)
+    expect(rowFor(report, 'offensiveReboundRate').opponent).toBe(0.3)
+
+    const freeThrows = rowFor(report, 'freeThrowRate')
+    expect(freeThrows.opponent).toBe(0.25)
+    expect(freeThrows.edge).toBeCloseTo(freeThrows.season! - 0.25, 3)
+    expect(freeThrows.pointsPer100).toBeLessThan(rowFor(buildFourFactorsReport(teamProfile, games, rated), 'freeThrowRate').pointsPer100!)
+  })
+
+  it('signs every edge in our favor and adds them up', () => {
+    const report = buildFourFactorsReport(teamProfile, games, scouted)
+    const turnovers = rowFor(report, 'turnoverRate')
+    expect(turnovers.edge).toBeCloseTo(0.11 - turnovers.matchup!, 3)
+    expect(Math.sign(turnovers.scenarioDelta!)).toBe(-Math.sign(turnovers.edge!))
+
+    const total = report.rows.reduce((sum, row) => sum + (row.pointsPer100 ?? 0), 0)
+    expect(report.netPointsPer100).toBeCloseTo(total, 0)
+  })
+
+  it('leaves the free-throw edge empty when the game log does not carry it', () => {
+    const freeThrows = rowFor(buildFourFactorsReport(teamProfile, createGameLog(12, 9), scouted), 'freeThrowRate')
+    expect(freeThrows.season).toBeNull()
+    expect(freeThrows.edge).toBeNull()
+    expect(freeThrows.scenarioDelta).toBeNull()
+  })
+})
+
+describe('parseTeamCsv', () => {
+  it('reads the optional four-factor columns by header and skips blank or out-of-range cells', () => {
+    const teams = parseTeamCsv(
+      [
+        'name,offensiveRating,defensiveRating,pace,freeThrowRate,efg',
+        'Boston,116,111,98,0.24,0.55',
+        'Miami,110,112,96,,1.5',
+      ].join('\n'),
+    )
+    expect(teams[0]).toEqual({ ...rated, freeThrowRate: 0.24, efg: 0.55 })
+    expect(teams[1]).toEqual({ name: 'Miami', offensiveRating: 110, defensiveRating: 112, pace: 96 })
+  })
+})
@@ -0,0 +1,153 @@
+import { buildPossessionProfiles, EFG_PER_SHOOTING_DELTA, LEAGUE_AVERAGE_RATING } from './analytics'
+import type {
+  FourFactor,
+  FourFactorRow,
+  FourFactorSource,
+  FourFactorsReport,
+  GameSample,
+  ScenarioFactor,
+  ScenarioInputs,
+  TeamCsvRow,
+  TeamProfile,
+} from '../types'
+
+export const FOUR_FACTOR_LABELS: Record<FourFactor, string> = {
+  efg: 'eFG%',
+  turnoverRate: 'Turnover rate',
+  offensiveReboundRate: 'Offensive rebound rate',
+  freeThrowRate: 'Free-throw rate',
+}
+
+export const FOUR_FACTOR_SOURCE_LABELS: Record<FourFactorSource, string> = {
+  scouted: 'scouted',
+  ratings: 'from ratings',
+  league: 'league average',
+}
+
+export const FOUR_FACTOR_ROLLING_GAMES = 5
+// Free throws made per field goal attempt for a league-average team, used for unscouted free-throw rates.
+const LEAGUE_AVERAGE_FREE_THROW_RATE = 0.19
+// Points a possession is worth once it ends in a shot, rebound or trip to the line.
+const POINTS_PER_POSSESSION = LEAGUE_AVERAGE_RATING / 100
+
+const neutralScenario: ScenarioInputs = { paceDelta: 0, shootingDelta: 0, turnoverDelta: 0 }
+
+const round = (value: number, digits = 3) => Number(value.toFixed(digits))
+
+const averageFreeThrowRate = (games: GameSample[]) => {
+  const logged = games.flatMap((game) => (game.freeThrowRate === undefined ? [] : [game.freeThrowRate]))
+  return logged.length > 0 ? logged.reduce((sum, value) => sum + value, 0) / logged.length : null
+}
+
+/**
+ * Dean Oliver's four factors for us and the selected opponent, with the possession simulation's rates.
+ * Each edge becomes points per 100 possessions and the tournament scenario delta worth the same.
+ */
+export const buildFourFactorsReport = (
+  team: TeamProfile,
+  games: GameSample[],
+  opponent: TeamCsvRow | null,
+): FourFactorsReport => {
+  const recent = games.slice(-FOUR_FACTOR_ROLLING_GAMES)
+  const season = buildPossessionProfiles(team, games, neutralScenario, null).ourProfile
+  const rolling = buildPossessionProfiles(team, recent, neutralScenario, null).ourProfile
+  const { ourProfile: ours, opponentProfile: theirs, possessionsPerTeam } = buildPossessionProfiles(
+    team,
+    games,
+    neutralScenario,
+    opponent,
+  )
+  const seasonFreeThrowRate = averageFreeThrowRate(games)
+  const opponentFreeThrowRate = opponent?.freeThrowRate ?? LEAGUE_AVERAGE_FREE_THROW_RATE
+  // Scouted columns win; otherwise eFG% follows their ratings and the rest are league stand-ins.
+  const sourceOf = (factor: FourFactor): FourFactorSource =>
+    opponent?.[factor] !== undefined ? 'scouted' : opponent && factor === 'efg' ? 'ratings' : 'league'
+
+  // Shots per 100 possessions that survive a turnover, and the misses among them that can be rebounded.
+  const shotsPer100 = (1 - ours.turnoverRate) * 100
+  const missesPer100 = shotsPer100 * (1 - ours.efg)
+  const pointsPerShootingDelta = EFG_PER_SHOOTING_DELTA * 2 * shotsPer100
+
+  const row = (
+    factor: FourFactor,
+    values: { season: number | null; rolling: number | null; matchup: number | null; opponent: number },
+    edge: number | null,
+    pointsPerUnit: number,
+    scenarioFactor: ScenarioFactor,
+    toScenario: (points: number, edge: number) => number,
+  ): FourFactorRow => {
+    const points = edge === null ? null : edge * pointsPerUnit
+    return {
+      factor,
+      season: values.season === null ? null : round(values.season),
+      rolling: values.rolling === null ? null : round(values.rolling),
+      matchup: values.matchup === null ? null : round(values.matchup),
+      opponent: round(values.opponent),
+      opponentSource: sourceOf(factor),
+      edge: edge === null ? null : round(edge),
+      pointsPer100: points === null ? null : round(points, 1),
+      scenarioFactor,
+      scenarioDelta: points === null || edge === null ? null : round(toScenario(points, edge), 1),
+    }
+  }
+
+  const shootingEquivalent = (points: number) => points / pointsPerShootingDelta
+
+  const rows = [
+    row(
+      'efg',
+      { season: season.efg, rolling: rolling.efg, matchup: ours.efg, opponent: theirs.efg },
+      ours.efg - theirs.efg,
+      2 * shotsPer100,
+      'shootingDelta',
+      (_, edge) => edge / EFG_PER_SHOOTING_DELTA,
+    ),
+    row(
+      'turnoverRate',
+      { season: season.turnoverRate, rolling: rolling.turnoverRate, matchup: ours.turnoverRate, opponent: theirs.turnoverRate },
+      theirs.turnoverRate - ours.turnoverRate,
+      100 * POINTS_PER_POSSESSION,
+      'turnoverDelta',
+      // An edge of fewer turnovers plays like a negative turnover delta.
+      (_, edge) => -edge * possessionsPerTeam,
+    ),
+    row(
+      'offensiveReboundRate',
+      {
+        season: season.offensiveReboundRate,
+        rolling: rolling.offensiveReboundRate,
+        matchup: ours.offensiveReboundRate,
+        opponent: theirs.offensiveReboundRate,
+      },
+      ours.offensiveReboundRate - theirs.offensiveReboundRate,
+      missesPer100 * POINTS_PER_POSSESSION,
+      'shootingDelta',
+      shootingEquivalent,
+    ),
+    row(
+      'freeThrowRate',
+      {
+        season: seasonFreeThrowRate,
+        rolling: averageFreeThrowRate(recent),
+        // No scouting column describes free throws allowed, so our matchup rate is the season rate.
+        matchup: seasonFreeThrowRate,
+        opponent: opponentFreeThrowRate,
+      },
+      seasonFreeThrowRate === null ? null : seasonFreeThrowRate - opponentFreeThrowRate,
+      shotsPer100,
+      'shootingDelta',
+      shootingEquivalent,
+    ),
+  ]
+
+  return {
+    opponent: opponent?.name ?? 'League average',
+    games: games.length,
+    rollingGames: recent.length,
+    rows,
+    netPointsPer100: round(
+      rows.reduce((sum, entry) => sum + (entry.pointsPer100 ?? 0), 0),
+      1,
+    ),
+  }
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest'
+import { buildMatchupReport, matchupMarginEdge, pickProbableStarters } from './matchups'
+import { evaluateScenarioCandidate, rankTournamentLineups } from './tournament'
+import { createPlayerPool, createTournamentInput } from '../test/fixtures'
+import type { Player, Position } from '../types'
+
+const player = (id: string, position: Position, stats: Partial<Player> = {}): Player => ({
+  ...createPlayerPool(1)[0],
+  id,
+  name: id,
+  position,
+  minutes: 30,
+  rebounds: 5,
+  blocks: 0.5,
+  steals: 1,
+  assists: 3,
+  ...stats,
+})
+
+const lineup = [player('g1', 'G'), player('g2', 'G'), player('f1', 'F'), player('f2', 'F'), player('c1', 'C')]
+
+describe('pickProbableStarters', () => {
+  it('takes the heaviest-minute 2G-2F-1C and fills short positions by minutes', () => {
+    const roster = [
+      player('g-bench', 'G', { minutes: 12 }),
+      player('g-a', 'G', { minutes: 34 }),
+      player('g-b', 'G', { minutes: 31 }),
+      player('g-c', 'G', { minutes: 28 }),
+      player('f-a', 'F', { minutes: 33 }),
+      player('c-a', 'C', { minutes: 29 }),
+      player('c-b', 'C', { minutes: 20 }),
+    ]
+
+    expect(pickProbableStarters(roster).map((starter) => starter.id)).toEqual(['g-a', 'g-b', 'f-a', 'c-a', 'g-c'])
+  })
+})
+
+describe('buildMatchupReport', () => {
+  it('pairs players by position and flags size and speed mismatches', () => {
+    const theirs = [
+      player('their-g1', 'G', { steals: 2.5, assists: 8 }),
+      player('their-g2', 'G'),
+      player('their-f1', 'F'),
+      player('their-f2', 'F'),
+      player('their-c1', 'C', { rebounds: 1, blocks: 0 }),
+    ]
+    const report = buildMatchupReport(lineup, theirs)
+
+    expect(report.pairs.map((pair) => [pair.ours.id, pair.theirs.position])).toEqual([
+      ['g1', 'G'],
+      ['g2', 'G'],
+      ['f1', 'F'],
+      ['f2', 'F'],
+      ['c1', 'C'],
+    ])
+    expect(report.mismatches.map((mismatch) => [mismatch.kind, mismatch.favors, mismatch.position])).toEqual([
+      ['speed', 'them', 'G'],
+      ['size', 'us', 'C'],
+    ])
+    expect(report.mismatches[1].detail).toBe('c1 out-sizes their-c1 at C (size edge 4.8)')
+  })
+
+  it('reports no edge without an opponent roster', () => {
+    const report = buildMatchupReport(lineup, [])
+    expect(report).toEqual({ pairs: [], mismatches: [], sizeEdge: 0, speedEdge: 0 })
+    expect(matchupMarginEdge(report, { paceDelta: 4, shootingDelta: 0, turnoverDelta: 0 })).toBe(0)
+  })
+})
+
+describe('matchupMarginEdge', () => {
+  it('leans on speed when pushing pace and on size when slowing down', () => {
+    const speed = { pairs: [], mismatches: [], sizeEdge: 0, speedEdge: 5 }
+    const size = { pairs: [], mismatches: [], sizeEdge: 5, speedEdge: 0 }
+    const push = { paceDelta: 4, shootingDelta: 0, turnoverDelta: 0 }
+    const grind = { paceDelta: -4, shootingDelta: 0, turnoverDelta: 0 }
+
+    expect(matchupMarginEdge(speed, push)).toBeGreaterThan(matchupMarginEdge(speed, grind))
+    expect(matchupMarginEdge(size, grind)).toBeGreaterThan(matchupMarginEdge(size, push))
+  })
+
+  it('raises the plan score against a roster our lineup out-sizes', () => {
+    const input = createTournamentInput()
+    const { best, availability } = rankTournamentLineups(input)
+    const smallRoster = best.lineup.map((starter) => ({ ...starter, id: `their-${starter.id}`, rebounds: 1, blocks: 0 }))
+    const profile = { id: 'plan', label: 'Plan', risk: 0.4 }
+    const scenario = { paceDelta: -2, shootingDelta: 0, turnoverDelta: 0 }
+
+    const unscouted = evaluateScenarioCandidate(input, profile, scenario, best, availability, 400)
+    const scouted = evaluateScenarioCandidate({ ...input, opponentRoster: smallRoster }, profile, scenario, best, availability, 400)
+
+    expect(scouted.score).toBeGreaterThan(unscouted.score)
+  })
+})
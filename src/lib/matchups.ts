@@ -0,0 +1,101 @@
+import type { MatchupMismatch, MatchupPair, MatchupReport, Player, Position, ScenarioInputs } from '../types'
+
+const STARTER_SLOTS: Record<Position, number> = { G: 2, F: 2, C: 1 }
+const STARTER_COUNT = 5
+const POSITION_ORDER: Position[] = ['G', 'F', 'C']
+
+// A pair is flagged once the gap in a proxy is about one starter-level standard deviation.
+export const SIZE_MISMATCH = 2.5
+export const SPEED_MISMATCH = 1.5
+// Points of expected margin per point of summed size or speed edge across the five pairs.
+const SIZE_TO_MARGIN = 0.3
+const SPEED_TO_MARGIN = 0.35
+
+// Size is rebounding plus rim protection; speed is ball pressure plus playmaking.
+const sizeRating = (player: Player) => player.rebounds + player.blocks * 1.5
+const speedRating = (player: Player) => player.steals * 2 + player.assists * 0.5
+
+const byMinutes = (left: Player, right: Player) => right.minutes - left.minutes
+
+const positionDistance = (left: Position, right: Position) =>
+  Math.abs(POSITION_ORDER.indexOf(left) - POSITION_ORDER.indexOf(right))
+
+/** Their five most likely starters: the heaviest-minute players in a 2G-2F-1C shape, filled by minutes when a position is short. */
+export const pickProbableStarters = (roster: Player[]) => {
+  const sorted = [...roster].sort(byMinutes)
+  const starters = POSITION_ORDER.flatMap((position) =>
+    sorted.filter((player) => player.position === position).slice(0, STARTER_SLOTS[position]),
+  )
+  const bench = sorted.filter((player) => !starters.includes(player))
+  return [...starters, ...bench.slice(0, Math.max(0, STARTER_COUNT - starters.length))]
+}
+
+const describeMismatch = (pair: MatchupPair, kind: MatchupMismatch['kind'], edge: number): MatchupMismatch => {
+  const favors = edge > 0 ? 'us' : 'them'
+  const [leader, trailer] = favors === 'us' ? [pair.ours.name, pair.theirs.name] : [pair.theirs.name, pair.ours.name]
+  const verb = kind === 'size' ? 'out-sizes' : 'is quicker than'
+  return {
+    kind,
+    favors,
+    position: pair.position,
+    ourPlayer: pair.ours.name,
+    theirPlayer: pair.theirs.name,
+    edge: Number(edge.toFixed(1)),
+    detail: `${leader} ${verb} ${trailer} at ${pair.position} (${kind} edge ${Math.abs(edge).toFixed(1)})`,
+  }
+}
+
+/**
+ * Pairs each player in our lineup with an opponent starter at the same position, falling back to
+ * the nearest position, and flags pairs whose size or speed gap crosses the mismatch threshold.
+ * Positive edges favor us.
+ */
+export const buildMatchupReport = (lineup: Player[], opponentRoster: Player[]): MatchupReport => {
+  const remaining = pickProbableStarters(opponentRoster)
+  const ordered = [...lineup].sort(
+    (left, right) => POSITION_ORDER.indexOf(left.position) - POSITION_ORDER.indexOf(right.position) || byMinutes(left, right),
+  )
+  const pairs: MatchupPair[] = []
+
+  ordered.forEach((ours) => {
+    if (remaining.length === 0) {
+      return
+    }
+    const theirs = remaining.reduce((closest, candidate) =>
+      positionDistance(ours.position, candidate.position) < positionDistance(ours.position, closest.position)
+        ? candidate
+        : closest,
+    )
+    remaining.splice(remaining.indexOf(theirs), 1)
+    pairs.push({
+      position: ours.position,
+      ours: { id: ours.id, name: ours.name, position: ours.position },
+      theirs: { id: theirs.id, name: theirs.name, position: theirs.position },
+      sizeEdge: Number((sizeRating(ours) - sizeRating(theirs)).toFixed(1)),
+      speedEdge: Number((speedRating(ours) - speedRating(theirs)).toFixed(1)),
+    })
+  })
+
+  const mismatches = pairs
+    .flatMap((pair) => [
+      ...(Math.abs(pair.sizeEdge) >= SIZE_MISMATCH ? [describeMismatch(pair, 'size', pair.sizeEdge)] : []),
+      ...(Math.abs(pair.speedEdge) >= SPEED_MISMATCH ? [describeMismatch(pair, 'speed', pair.speedEdge)] : []),
+    ])
+    .sort((left, right) => Math.abs(right.edge) - Math.abs(left.edge))
+
+  return {
+    pairs,
+    mismatches,
+    sizeEdge: Number(pairs.reduce((sum, pair) => sum + pair.sizeEdge, 0).toFixed(1)),
+    speedEdge: Number(pairs.reduce((sum, pair) => sum + pair.speedEdge, 0).toFixed(1)),
+  }
+}
+
+/**
+ * Expected margin the matchups are worth under a given plan. Pushing pace leans on speed edges and
+ * slowing it down leans on size, so the same lineup favors different plans against different rosters.
+ */
+export const matchupMarginEdge = (report: MatchupReport, scenario: ScenarioInputs) => {
+  const tempo = Math.max(-5, Math.min(5, scenario.paceDelta)) / 10
+  return report.speedEdge * SPEED_TO_MARGIN * (1 + tempo) + report.sizeEdge * SIZE_TO_MARGIN * (1 - tempo)
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_MODEL_COEFFICIENTS, calculateNetRating, createSeededRandom } from './analytics'
+import { fitModelCoefficients, MIN_FIT_GAMES } from './modelFit'
+import { teamProfile } from '../data/mockData'
+import { createGameLog } from '../test/fixtures'
+import type { GameSample } from '../types'
+
+const opponents = [
+  { name: 'Phoenix', offensiveRating: 118, defensiveRating: 110, pace: 100 },
+  { name: 'Dallas', offensiveRating: 114, defensiveRating: 113, pace: 98 },
+  { name: 'Boston', offensiveRating: 110, defensiveRating: 114, pace: 97 },
+  { name: 'Miami', offensiveRating: 106, defensiveRating: 115, pace: 95 },
+]
+
+// Games whose eFG%, turnovers and pace are spread evenly around the team's averages, so the fit's
+// own centering matches the deviations used to generate each result.
+const createScenarioGames = (count: number, seed: number, result: (features: number[], random: () => number) => number) => {
+  const random = createSeededRandom(seed)
+  const rows = Array.from({ length: count }, (_, index) => {
+    const opponent = opponents[index % opponents.length]
+    return [
+      Math.round(random() * 8 - 4),
+      Math.round(random() * 8 - 4),
+      Math.round(random() * 8 - 4),
+      -(opponent.offensiveRating - opponent.defensiveRating),
+    ]
+  })
+  const means = [0, 1, 2].map((column) => rows.reduce((sum, row) => sum + row[column], 0) / count)
+
+  return rows.map((row, index): GameSample => {
+    const features = row.map((value, column) => (column < 3 ? value - means[column] : value))
+    const margin = result(features, random)
+    return {
+      game: `S${index + 1}`,
+      opponent: opponents[index % opponents.length].name,
+      pointsFor: 110 + margin,
+      pointsAgainst: 110,
+      pace: 100 + row[2],
+      efg: 0.54 + row[0] * 0.005,
+      turnovers: 13 - row[1],
+      rebounding: 45,
+    }
+  })
+}
+
+const dot = (weights: number[], features: number[]) => features.reduce((sum, value, index) => sum + value * weights[index], 0)
+
+describe('fitModelCoefficients', () => {
+  it('keeps the defaults when the log is too short', () => {
+    const result = fitModelCoefficients(teamProfile, createGameLog(MIN_FIT_GAMES - 1), opponents, 1, '2024-01-01T00:00:00Z')
+    expect(result.coefficients).toBeNull()
+    expect(result.message).toContain(`${MIN_FIT_GAMES} games`)
+  })
+
+  it('recovers the margin weights behind a synthetic log', () => {
+    const weights = [0.6, 0.5, 0.2, 0.9]
+    const offset = 1.5
+    const baseNet = calculateNetRating(teamProfile)
+    const games = createScenarioGames(
+      400,
+      11,
+      (features, random) => baseNet + offset + dot(weights, features) + (random() - 0.5) * 2,
+    )
+
+    const { margin } = fitModelCoefficients(teamProfile, games, opponents, 1, '2024-01-01T00:00:00Z').coefficients!
+    expect(margin.offset).toBeCloseTo(offset, 1)
+    expect(margin.shooting).toBeCloseTo(weights[0], 1)
+    expect(margin.turnover).toBeCloseTo(weights[1], 1)
+    expect(margin.pace).toBeCloseTo(weights[2], 1)
+    expect(margin.opponentNetRating).toBeCloseTo(weights[3], 1)
+  })
+
+  it('recovers the win weights behind a synthetic log and drops the opponent penalty', () => {
+    const { win: defaults } = DEFAULT_MODEL_COEFFICIENTS
+    const fixed = defaults.netRating * calculateNetRating(teamProfile) + defaults.recentForm * teamProfile.recentForm
+    const weights = [0.15, 0.1, 0.05, 0.08]
+    const intercept = -fixed + 0.2
+    const games = createScenarioGames(3000, 17, (features, random) => {
+      const probability = 1 / (1 + Math.exp(-(fixed + intercept + dot(weights, features))))
+      return random() < probability ? 5 : -5
+    })
+
+    const { win } = fitModelCoefficients(teamProfile, games, opponents, 1, '2024-01-01T00:00:00Z').coefficients!
+    expect(win.intercept).toBeCloseTo(intercept, 0)
+    expect(Math.abs(win.shooting - weights[0])).toBeLessThan(0.03)
+    expect(Math.abs(win.turnover - weights[1])).toBeLessThan(0.03)
+    expect(Math.abs(win.pace - weights[2])).toBeLessThan(0.03)
+    expect(Math.abs(win.opponentNetRating - weights[3])).toBeLessThan(0.03)
+    expect(win.netRating).toBe(defaults.netRating)
+    expect(win).not.toHaveProperty('opponentPenalty')
+  })
+})
@@ -0,0 +1,181 @@
+import { DEFAULT_MODEL_COEFFICIENTS, calculateNetRating } from './analytics'
+import type { GameSample, ModelCoefficients, ModelFitResult, TeamCsvRow, TeamProfile } from '../types'
+
+// Each model fits five weights; 20 games keeps at least four results behind every one of them.
+export const MIN_FIT_GAMES = 20
+
+// Ridge penalty pulling each fitted weight toward its default, so a short log nudges the model
+// instead of replacing it. Features move about one unit from game to game, so a strength of 4
+// weighs the default like four games of evidence: it dominates a 20-game fit's noisiest weights
+// and fades to a few percent over a full season.
+export const RIDGE_STRENGTH = 4
+const LOGISTIC_ITERATIONS = 25
+// One scenario shooting step is half a point of eFG%, the same scale the possession model uses.
+const EFG_PER_SHOOTING_STEP = 0.005
+
+const round = (value: number) => Number(value.toFixed(4))
+
+const sigmoid = (value: number) => 1 / (1 + Math.exp(-value))
+
+// Gaussian elimination with partial pivoting; the systems here are 5×5.
+const solveLinearSystem = (matrix: number[][], vector: number[]) => {
+  const size = vector.length
+  const rows = matrix.map((row, index) => [...row, vector[index]])
+
+  for (let column = 0; column < size; column++) {
+    let pivot = column
+    for (let row = column + 1; row < size; row++) {
+      if (Math.abs(rows[row][column]) > Math.abs(rows[pivot][column])) {
+        pivot = row
+      }
+    }
+    ;[rows[column], rows[pivot]] = [rows[pivot], rows[column]]
+
+    for (let row = column + 1; row < size; row++) {
+      const factor = rows[row][column] / rows[column][column]
+      for (let entry = column; entry <= size; entry++) {
+        rows[row][entry] -= factor * rows[column][entry]
+      }
+    }
+  }
+
+  const solution = Array.from({ length: size }, () => 0)
+  for (let row = size - 1; row >= 0; row--) {
+    let sum = rows[row][size]
+    for (let column = row + 1; column < size; column++) {
+      sum -= rows[row][column] * solution[column]
+    }
+    solution[row] = sum / rows[row][row]
+  }
+
+  return solution
+}
+
+/** Penalized normal equations: (XᵀWX + λI)β = XᵀWz + λ·prior. */
+const solveWeightedRidge = (features: number[][], targets: number[], weights: number[], prior: number[]) => {
+  const size = prior.length
+  const matrix = Array.from({ length: size }, (_, row) =>
+    Array.from({ length: size }, (_, column) => (row === column ? RIDGE_STRENGTH : 0)),
+  )
+  const vector = prior.map((value) => value * RIDGE_STRENGTH)
+
+  features.forEach((row, index) => {
+    for (let left = 0; left < size; left++) {
+      vector[left] += row[left] * weights[index] * targets[index]
+      for (let right = 0; right < size; right++) {
+        matrix[left][right] += row[left] * weights[index] * row[right]
+      }
+    }
+  })
+
+  return solveLinearSystem(matrix, vector)
+}
+
+/**
+ * Each game becomes the scenario the team actually played: eFG%, turnovers and pace relative to its
+ * own averages, plus the opponent's scouted net rating. Signs are folded in so every coefficient
+ * reads the same way as the defaults.
+ */
+const buildFeatures = (games: GameSample[], opponents: TeamCsvRow[]) => {
+  const mean = (pick: (game: GameSample) => number) => games.reduce((sum, game) => sum + pick(game), 0) / games.length
+  const efg = mean((game) => game.efg)
+  const turnovers = mean((game) => game.turnovers)
+  const pace = mean((game) => game.pace)
+  const ratings = new Map(opponents.map((opponent) => [opponent.name.toLowerCase(), opponent]))
+
+  return games.map((game) => {
+    const opponent = ratings.get(game.opponent.toLowerCase())
+    const opponentNetRating = opponent ? opponent.offensiveRating - opponent.defensiveRating : 0
+    return [
+      1,
+      (game.efg - efg) / EFG_PER_SHOOTING_STEP,
+      -(game.turnovers - turnovers),
+      game.pace - pace,
+      -opponentNetRating,
+    ]
+  })
+}
+
+const fitMargin = (team: TeamProfile, games: GameSample[], features: number[][]) => {
+  const { margin } = DEFAULT_MODEL_COEFFICIENTS
+  const baseNet = calculateNetRating(team)
+  const [offset, shooting, turnover, pace, opponentNetRating] = solveWeightedRidge(
+    features,
+    games.map((game) => game.pointsFor - game.pointsAgainst - baseNet),
+    games.map(() => 1),
+    [margin.offset, margin.shooting, margin.turnover, margin.pace, margin.opponentNetRating],
+  )
+  return { offset, shooting, turnover, pace, opponentNetRating }
+}
+
+// Newton-Raphson (IRLS) on the penalized log-likelihood. Net rating and recent form are constant
+// across one team's log, so they keep their default weights and the intercept absorbs any bias.
+// The opponent is fitted inside the logit, so a fitted model carries no separate opponent penalty.
+const fitWin = (team: TeamProfile, games: GameSample[], features: number[][]): ModelCoefficients['win'] => {
+  const { win } = DEFAULT_MODEL_COEFFICIENTS
+  const fixed = win.netRating * calculateNetRating(team) + win.recentForm * team.recentForm
+  const outcomes = games.map((game) => (game.pointsFor > game.pointsAgainst ? 1 : 0))
+  // The default applies its opponent penalty outside the logit; 0.03 per point is its slope near 60%.
+  const prior = [win.intercept, win.shooting, win.turnover, win.pace, 0.03]
+  let beta = [...prior]
+
+  for (let iteration = 0; iteration < LOGISTIC_ITERATIONS; iteration++) {
+    const probabilities = features.map((row) => sigmoid(fixed + row.reduce((sum, value, index) => sum + value * beta[index], 0)))
+    const weights = probabilities.map((probability) => Math.max(1e-6, probability * (1 - probability)))
+    // Working response of IRLS: current linear predictor plus the scaled residual.
+    const working = features.map(
+      (row, index) =>
+        row.reduce((sum, value, column) => sum + value * beta[column], 0) +
+        (outcomes[index] - probabilities[index]) / weights[index],
+    )
+    beta = solveWeightedRidge(features, working, weights, prior)
+  }
+
+  const [intercept, shooting, turnover, pace, opponentNetRating] = beta
+  return {
+    intercept,
+    netRating: win.netRating,
+    recentForm: win.recentForm,
+    shooting,
+    turnover,
+    pace,
+    opponentNetRating,
+  }
+}
+
+/**
+ * Fits a new coefficient version from the game log: logistic regression for the win model and
+ * linear regression for the Monte Carlo margin. Returns no coefficients when the log is too short.
+ */
+export const fitModelCoefficients = (
+  team: TeamProfile,
+  games: GameSample[],
+  opponents: TeamCsvRow[],
+  version: number,
+  fittedAt: string,
+): ModelFitResult => {
+  if (games.length < MIN_FIT_GAMES) {
+    return {
+      coefficients: null,
+      message: `Need at least ${MIN_FIT_GAMES} games to fit coefficients (the log has ${games.length}); keeping the defaults.`,
+    }
+  }
+
+  const features = buildFeatures(games, opponents)
+  const win = fitWin(team, games, features)
+  const margin = fitMargin(team, games, features)
+  const coefficients: ModelCoefficients = {
+    id: `fit-${version}-${Date.parse(fittedAt).toString(36)}`,
+    label: `Fit v${version} · ${games.length} games`,
+    fittedAt,
+    sampleSize: games.length,
+    win: Object.fromEntries(Object.entries(win).map(([key, value]) => [key, round(value)])) as ModelCoefficients['win'],
+    margin: Object.fromEntries(Object.entries(margin).map(([key, value]) => [key, round(value)])) as ModelCoefficients['margin'],
+  }
+
+  if (Object.values(coefficients.win).concat(Object.values(coefficients.margin)).some((value) => !Number.isFinite(value))) {
+    return { coefficients: null, message: 'The fit did not converge on this game log; keeping the defaults.' }
+  }
+
+  return { coefficients, message: `Fitted ${coefficients.label}.` }
+}
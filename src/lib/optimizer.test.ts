@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest'
+import { OPTIMIZED_CANDIDATE_ID, optimizeStrategy, SCENARIO_BOUNDS, scenarioRisk, searchStrategy } from './optimizer'
+import { SCENARIO_FACTORS } from './sensitivity'
+import { evaluateScenarioCandidate, rankTournamentLineups } from './tournament'
+import { createTournamentInput } from '../test/fixtures'
+
+describe('optimizeStrategy', () => {
+  const input = createTournamentInput()
+  const { best: lineup, availability } = rankTournamentLineups(input)
+  const start = { paceDelta: 0, shootingDelta: 0, turnoverDelta: 0 }
+
+  it('never scores below its starting scenario', () => {
+    const { candidate } = optimizeStrategy(input, lineup, availability, start, 400, 400)
+    const baseline = evaluateScenarioCandidate(
+      input,
+      { id: OPTIMIZED_CANDIDATE_ID, label: 'Optimized', risk: scenarioRisk(start) },
+      start,
+      lineup,
+      availability,
+      400,
+    )
+
+    expect(candidate.id).toBe(OPTIMIZED_CANDIDATE_ID)
+    expect(candidate.score).toBeGreaterThanOrEqual(baseline.score)
+  })
+
+  it('keeps the plan inside the intensity-scaled bounds', () => {
+    const intensity = 3
+    const { candidate, evaluations } = optimizeStrategy(
+      createTournamentInput({ strategyIntensity: intensity }),
+      lineup,
+      availability,
+      { paceDelta: 20, shootingDelta: -20, turnoverDelta: 20 },
+      400,
+      400,
+    )
+
+    SCENARIO_FACTORS.forEach((factor) => {
+      const [min, max] = SCENARIO_BOUNDS[factor]
+      expect(candidate.scenario[factor]).toBeGreaterThanOrEqual((min * intensity) / 6)
+      expect(candidate.scenario[factor]).toBeLessThanOrEqual((max * intensity) / 6)
+    })
+    expect(evaluations).toBeLessThanOrEqual(60)
+  })
+
+  it('scores every evaluation against the availability model it is given', () => {
+    const starter = lineup.lineup[0]
+    const absences: string[][] = []
+    const model = {
+      players: [{ id: starter.id, name: starter.name, playProbability: 0.5 }],
+      marginShift: (absentIds: string[]) => {
+        absences.push(absentIds)
+        return absentIds.length > 0 ? -6 : 0
+      },
+    }
+
+    const { candidate } = optimizeStrategy(input, lineup, model, start, 400, 400)
+    const healthy = optimizeStrategy(input, lineup, undefined, start, 400, 400).candidate
+
+    expect(absences.some((ids) => ids.includes(starter.id))).toBe(true)
+    expect(candidate.expectedMargin).toBeLessThan(healthy.expectedMargin)
+  })
+
+  it('returns every other scored trial with its own id for the frontier', () => {
+    const { candidate, evaluations, explored } = optimizeStrategy(input, lineup, availability, start, 400, 400)
+    const ids = explored.map((trial) => trial.id)
+
+    expect(explored).toHaveLength(evaluations - 1)
+    expect(new Set(ids).size).toBe(ids.length)
+    expect(ids).not.toContain(OPTIMIZED_CANDIDATE_ID)
+    expect(explored.every((trial) => trial.score <= candidate.score)).toBe(true)
+  })
+
+  it('yields after every search evaluation so a worker can cancel between them', () => {
+    const search = searchStrategy(input, lineup, availability, start, 400, 400)
+    const counts: number[] = []
+    let step = search.next()
+    while (!step.done) {
+      counts.push(step.value)
+      step = search.next()
+    }
+
+    expect(counts).toEqual(Array.from({ length: step.value.evaluations }, (_, index) => index + 1))
+    expect(step.value.candidate).toEqual(optimizeStrategy(input, lineup, availability, start, 400, 400).candidate)
+  })
+})
@@ -0,0 +1,149 @@
+import { SCENARIO_FACTORS } from './sensitivity'
+import { evaluateScenarioCandidate, OPTIMIZER_MAX_EVALUATIONS, type TournamentInput } from './tournament'
+import type { AvailabilityModel, LineupResult, ScenarioFactor, ScenarioInputs, StrategyCandidate } from '../types'
+
+export const OPTIMIZED_CANDIDATE_ID = 'optimized'
+export const OPTIMIZED_CANDIDATE_LABEL = 'Optimized'
+const SEARCH_TRIAL_PREFIX = `${OPTIMIZED_CANDIDATE_ID}-trial-`
+
+// The widest plan a staff can realistically execute at full intensity, spanning the built-in
+// archetypes. Bounds shrink with strategy intensity exactly like archetype scenarios do.
+export const SCENARIO_BOUNDS: Record<ScenarioFactor, [number, number]> = {
+  paceDelta: [-6, 8],
+  shootingDelta: [-2, 5],
+  turnoverDelta: [-4, 4],
+}
+
+const INITIAL_STEP = 2
+const MIN_STEP = 0.5
+
+// Risk baseline for an arbitrary plan: tempo and shot volume add variance, slowing down removes it.
+// Calibrated so the built-in archetypes land near their hand-set values.
+const BASE_RISK = 0.3
+const PACE_RISK = 0.04
+const SHOOTING_RISK = 0.03
+const TURNOVER_RISK = 0.02
+
+export type OptimizedStrategy = {
+  candidate: StrategyCandidate
+  evaluations: number
+  // Every other plan the search scored, at the search depth, for the win vs risk frontier.
+  explored: StrategyCandidate[]
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value))
+
+const round = (value: number) => Number(value.toFixed(1))
+
+export const scenarioRisk = (scenario: ScenarioInputs) =>
+  clamp(
+    BASE_RISK +
+      scenario.paceDelta * PACE_RISK +
+      scenario.shootingDelta * SHOOTING_RISK +
+      Math.abs(scenario.turnoverDelta) * TURNOVER_RISK,
+    0.1,
+    0.95,
+  )
+
+const boundScenario = (scenario: ScenarioInputs, strategyIntensity: number): ScenarioInputs => {
+  const scale = strategyIntensity / 6
+  return Object.fromEntries(
+    SCENARIO_FACTORS.map((factor) => {
+      const [min, max] = SCENARIO_BOUNDS[factor]
+      return [factor, round(clamp(scenario[factor], min * scale, max * scale))]
+    }),
+  ) as ScenarioInputs
+}
+
+const evaluate = (
+  input: TournamentInput,
+  scenario: ScenarioInputs,
+  lineup: LineupResult,
+  availability: AvailabilityModel | undefined,
+  iterations: number,
+  profile = { id: OPTIMIZED_CANDIDATE_ID, label: OPTIMIZED_CANDIDATE_LABEL },
+) => evaluateScenarioCandidate(input, { ...profile, risk: scenarioRisk(scenario) }, scenario, lineup, availability, iterations)
+
+const trialProfile = (trial: number) => ({ id: `${SEARCH_TRIAL_PREFIX}${trial}`, label: `Search trial ${trial}` })
+
+/** Re-scores a search trial at `iterations`, keeping its id and label. */
+export const rescoreSearchTrial = (
+  input: TournamentInput,
+  trial: StrategyCandidate,
+  lineup: LineupResult,
+  availability: AvailabilityModel | undefined,
+  iterations: number,
+) => evaluate(input, trial.scenario, lineup, availability, iterations, { id: trial.id, label: trial.label })
+
+/**
+ * Coordinate search over the continuous pace/shooting/turnover space inside the feasibility bounds,
+ * scored with the tournament's composite. Each sweep tries a step up and down on every factor and
+ * moves to the first improvement; a sweep without one halves the step. The fixed seed makes every
+ * evaluation use the same random draws, so small steps compare plans rather than noise.
+ *
+ * The search runs at `searchIterations` and the winner is re-scored at `iterations`, matching how
+ * the archetypes are reported. The other trials come back as `explored`, still at search depth.
+ *
+ * The generator yields the evaluation count after every search evaluation, so a worker can check for
+ * cancellation and report progress between them; `optimizeStrategy` runs it to completion.
+ */
+export function* searchStrategy(
+  input: TournamentInput,
+  lineup: LineupResult,
+  availability: AvailabilityModel | undefined,
+  start: ScenarioInputs,
+  searchIterations: number,
+  iterations: number,
+): Generator<number, OptimizedStrategy, void> {
+  let current = boundScenario(start, input.strategyIntensity)
+  let best = evaluate(input, current, lineup, availability, searchIterations, trialProfile(1))
+  let evaluations = 1
+  let step = INITIAL_STEP
+  const trials = [best]
+  yield evaluations
+
+  while (step >= MIN_STEP && evaluations < OPTIMIZER_MAX_EVALUATIONS) {
+    let improved = false
+    for (const factor of SCENARIO_FACTORS) {
+      for (const direction of [1, -1]) {
+        const trial = boundScenario({ ...current, [factor]: current[factor] + direction * step }, input.strategyIntensity)
+        if (trial[factor] === current[factor] || evaluations >= OPTIMIZER_MAX_EVALUATIONS) {
+          continue
+        }
+
+        const scored = evaluate(input, trial, lineup, availability, searchIterations, trialProfile(evaluations + 1))
+        evaluations += 1
+        trials.push(scored)
+        yield evaluations
+        if (scored.score > best.score) {
+          best = scored
+          current = trial
+          improved = true
+          break
+        }
+      }
+      if (improved) {
+        break
+      }
+    }
+    if (!improved) {
+      step /= 2
+    }
+  }
+
+  // The winning trial is reported as the Optimized candidate itself.
+  return {
+    candidate: evaluate(input, current, lineup, availability, iterations),
+    evaluations,
+    explored: trials.filter((trial) => trial !== best),
+  }
+}
+
+export const optimizeStrategy = (...args: Parameters<typeof searchStrategy>) => {
+  const search = searchStrategy(...args)
+  let step = search.next()
+  while (!step.done) {
+    step = search.next()
+  }
+  return step.value
+}
@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest'
+import { SENSITIVITY_STEP } from './analytics'
+import { comparePlans, exportPlan, normalizePlanSnapshot, planConstraints } from './plans'
+import type { Formation, PlanSnapshot } from '../types'
+
+const plan: PlanSnapshot = {
+  snapshotId: 'snap-1',
+  id: 'aggressive',
+  label: 'Run | Gun',
+  opponent: 'Metro\nElite',
+  opponentNetRating: 4.2,
+  score: 61.5,
+  winProbability: 58,
+  monteWinRate: 55.4,
+  expectedMargin: 2.1,
+  riskIndex: 42,
+  paceDelta: 3,
+  shootingDelta: 2,
+  turnoverDelta: 1,
+  seed: 7,
+  lineup: [{ id: 'p1', name: 'Jordan "J|K" Lee', position: 'G', salary: 8000 }],
+  totalSalary: 8000,
+  distribution: [{ range: '0 to 5', frequency: 10 }],
+  sensitivity: [{ factor: 'Pace', deltaWinProbability: 1.2 }],
+  sensitivityStep: 3,
+  availabilityImpact: [],
+  recommendations: [{ title: 'Push tempo', detail: 'Run early offense.', impact: 4, rule: 'pace' }],
+  settings: {
+    opponent: 'Metro Elite',
+    formationId: 'balanced',
+    priorityMode: 'balanced',
+    strategyIntensity: 6,
+    budget: 36000,
+    minimumMinutes: 22,
+    simulationRuns: 2500,
+    simulationSeed: 7,
+    simulationMode: 'margin',
+    injuredPlayerIds: [],
+    playProbabilities: {},
+    lockedPlayerIds: [],
+    togetherPairs: [],
+    apartPairs: [],
+    positionSalaryCaps: {},
+    modelVersionId: 'default',
+  },
+  lockedAt: '2024-03-01T18:00:00.000Z',
+}
+
+describe('exportPlan', () => {
+  it('labels the sensitivity section with the step the plan was swept by', () => {
+    expect(exportPlan(plan, 'markdown').content).toContain('## Sensitivity (+3 per factor)')
+    expect(exportPlan(plan, 'html').content).toContain('<h2>Sensitivity (+3 per factor)</h2>')
+  })
+
+  it('escapes pipes and flattens line breaks inside Markdown table cells', () => {
+    const markdown = exportPlan(plan, 'markdown').content
+
+    expect(markdown).toContain('# Game Plan: Run \\| Gun vs Metro Elite')
+    expect(markdown).toContain('| Opponent | Metro Elite |')
+    expect(markdown).toContain('| Jordan "J\\|K" Lee | G | $8,000 |')
+  })
+})
+
+describe('comparePlans', () => {
+  it('diffs metrics, lineups, recommendations and settings between two saved plans', () => {
+    const later: PlanSnapshot = {
+      ...plan,
+      snapshotId: 'snap-2',
+      winProbability: 61.5,
+      riskIndex: 38,
+      lineup: [
+        { id: 'p1', name: 'Jordan Lee', position: 'G', salary: 8000 },
+        { id: 'p9', name: 'Sam Cole', position: 'C', salary: 6000 },
+      ],
+      recommendations: [
+        { title: 'Push tempo', detail: 'Run early offense.', impact: 6, rule: 'pace' },
+        { title: 'Protect the ball', detail: 'Simplify entries.', impact: 3, rule: 'turnovers' },
+      ],
+      settings: { ...plan.settings, budget: 40000, injuredPlayerIds: ['p4'] },
+    }
+
+    const comparison = comparePlans(plan, later)
+
+    expect(comparison.metrics.find((metric) => metric.label === 'Win probability')).toEqual({
+      label: 'Win probability',
+      left: 58,
+      right: 61.5,
+      delta: 3.5,
+    })
+    expect(comparison.metrics.find((metric) => metric.label === 'Risk index')?.delta).toBe(-4)
+    expect(comparison.lineupAdded.map((player) => player.id)).toEqual(['p9'])
+    expect(comparison.lineupRemoved).toEqual([])
+    expect(comparison.lineupShared.map((player) => player.id)).toEqual(['p1'])
+    expect(comparison.recommendationsOnlyRight.map((item) => item.title)).toEqual(['Protect the ball'])
+    expect(comparison.recommendationsShared).toEqual([{ title: 'Push tempo', leftImpact: 4, rightImpact: 6 }])
+    expect(comparison.settingChanges).toEqual([
+      { label: 'Budget', left: '$36,000', right: '$40,000' },
+      { label: 'Unavailable', left: 'none', right: 'p4' },
+    ])
+  })
+})
+
+describe('normalizePlanSnapshot', () => {
+  it('assumes the original sweep step for plans saved before it was recorded', () => {
+    const saved = { ...plan, sensitivityStep: undefined } as unknown as PlanSnapshot
+    expect(normalizePlanSnapshot(saved).sensitivityStep).toBe(SENSITIVITY_STEP)
+  })
+})
+
+describe('planConstraints', () => {
+  it('rebuilds the lineup rules from the settings the plan was executed under', () => {
+    const formation: Formation = {
+      id: 'balanced',
+      label: 'Balanced',
+      guards: 2,
+      forwards: 2,
+      centers: 1,
+      flexSlots: { UTIL: 1 },
+      builtIn: true,
+    }
+    const settings = { ...plan.settings, injuredPlayerIds: ['p4'], apartPairs: [['p1', 'p2']] as [string, string][] }
+
+    expect(planConstraints(settings, formation)).toMatchObject({
+      guards: 2,
+      flexSlots: { UTIL: 1 },
+      minMinutes: 22,
+      excludedPlayerIds: ['p4'],
+      apartPairs: [['p1', 'p2']],
+    })
+  })
+})
@@ -0,0 +1,323 @@
+import { SENSITIVITY_STEP } from './analytics'
+import type {
+  Formation,
+  LineupConstraints,
+  PlanComparison,
+  PlanExport,
+  PlanExportFormat,
+  PlanSettings,
+  PlanSnapshot,
+} from '../types'
+
+const round = (value: number, digits = 1) => Number(value.toFixed(digits))
+
+/** The lineup rules a plan was executed under, so its rotation does not follow later Setup edits. */
+export const planConstraints = (settings: PlanSettings, formation: Formation): LineupConstraints => ({
+  guards: formation.guards,
+  forwards: formation.forwards,
+  centers: formation.centers,
+  flexSlots: formation.flexSlots,
+  minMinutes: settings.minimumMinutes,
+  excludedPlayerIds: settings.injuredPlayerIds,
+  lockedPlayerIds: settings.lockedPlayerIds,
+  togetherPairs: settings.togetherPairs,
+  apartPairs: settings.apartPairs,
+  positionSalaryCaps: settings.positionSalaryCaps,
+})
+
+const describeSetting: { label: string; read: (settings: PlanSettings) => string }[] = [
+  { label: 'Opponent', read: (settings) => settings.opponent },
+  { label: 'Formation', read: (settings) => settings.formationId },
+  { label: 'Priority', read: (settings) => settings.priorityMode },
+  { label: 'Intensity', read: (settings) => String(settings.strategyIntensity) },
+  { label: 'Budget', read: (settings) => `$${settings.budget.toLocaleString()}` },
+  { label: 'Minimum minutes', read: (settings) => String(settings.minimumMinutes) },
+  { label: 'Simulation runs', read: (settings) => String(settings.simulationRuns) },
+  { label: 'Simulation seed', read: (settings) => String(settings.simulationSeed) },
+  { label: 'Simulation engine', read: (settings) => settings.simulationMode },
+  { label: 'Unavailable', read: (settings) => [...settings.injuredPlayerIds].sort().join(', ') || 'none' },
+  {
+    label: 'Uncertain availability',
+    read: (settings) =>
+      Object.entries(settings.playProbabilities)
+        .filter(([, probability]) => probability > 0 && probability < 1)
+        .sort(([left], [right]) => left.localeCompare(right))
+        .map(([playerId, probability]) => `${playerId} ${Math.round(probability * 100)}%`)
+        .join(', ') || 'none',
+  },
+  { label: 'Locked in', read: (settings) => [...settings.lockedPlayerIds].sort().join(', ') || 'none' },
+  {
+    label: 'Pair rules',
+    read: (settings) =>
+      [
+        ...settings.togetherPairs.map(([left, right]) => `${left}+${right}`),
+        ...settings.apartPairs.map(([left, right]) => `${left}≠${right}`),
+      ].join(', ') || 'none',
+  },
+  { label: 'Model coefficients', read: (settings) => settings.modelVersionId },
+  {
+    label: 'Position salary caps',
+    read: (settings) =>
+      Object.entries(settings.positionSalaryCaps)
+        .map(([position, cap]) => `${position} $${cap?.toLocaleString()}`)
+        .join(', ') || 'none',
+  },
+]
+
+/** Diffs two locked plans: `right` is read as the newer plan, so positive deltas mean it improved on `left`. */
+export const comparePlans = (left: PlanSnapshot, right: PlanSnapshot): PlanComparison => {
+  const metric = (label: string, pick: (plan: PlanSnapshot) => number) => ({
+    label,
+    left: pick(left),
+    right: pick(right),
+    delta: round(pick(right) - pick(left), 2),
+  })
+
+  const leftIds = new Set(left.lineup.map((player) => player.id))
+  const rightIds = new Set(right.lineup.map((player) => player.id))
+  const leftTitles = new Map(left.recommendations.map((item) => [item.title, item]))
+  const rightTitles = new Map(right.recommendations.map((item) => [item.title, item]))
+
+  return {
+    metrics: [
+      metric('Plan score', (plan) => plan.score),
+      metric('Win probability', (plan) => plan.winProbability),
+      metric('Monte Carlo win', (plan) => plan.monteWinRate),
+      metric('Expected margin', (plan) => plan.expectedMargin),
+      metric('Risk index', (plan) => plan.riskIndex),
+      metric('Pace delta', (plan) => plan.paceDelta),
+      metric('Shooting delta', (plan) => plan.shootingDelta),
+      metric('Turnover delta', (plan) => plan.turnoverDelta),
+    ],
+    lineupAdded: right.lineup.filter((player) => !leftIds.has(player.id)),
+    lineupRemoved: left.lineup.filter((player) => !rightIds.has(player.id)),
+    lineupShared: right.lineup.filter((player) => leftIds.has(player.id)),
+    recommendationsOnlyLeft: left.recommendations.filter((item) => !rightTitles.has(item.title)),
+    recommendationsOnlyRight: right.recommendations.filter((item) => !leftTitles.has(item.title)),
+    recommendationsShared: right.recommendations
+      .filter((item) => leftTitles.has(item.title))
+      .map((item) => ({ title: item.title, leftImpact: leftTitles.get(item.title)?.impact ?? 0, rightImpact: item.impact })),
+    settingChanges: describeSetting
+      .map(({ label, read }) => ({ label, left: read(left.settings), right: read(right.settings) }))
+      .filter((change) => change.left !== change.right),
+  }
+}
+
+/** Plans saved before the export fields existed are filled in so older history entries still render and export. */
+export const normalizePlanSnapshot = (plan: PlanSnapshot): PlanSnapshot => ({
+  ...plan,
+  totalSalary: plan.totalSalary ?? plan.lineup.reduce((sum, player) => sum + player.salary, 0),
+  distribution: plan.distribution ?? [],
+  sensitivity: plan.sensitivity ?? [],
+  sensitivityStep: plan.sensitivityStep ?? SENSITIVITY_STEP,
+  availabilityImpact: plan.availabilityImpact ?? [],
+  recommendations: plan.recommendations.map((item) => ({ ...item, rule: item.rule ?? '' })),
+  settings: {
+    ...plan.settings,
+    modelVersionId: plan.settings.modelVersionId ?? 'default',
+    playProbabilities: plan.settings.playProbabilities ?? {},
+  },
+})
+
+const formatSignedValue = (value: number) => (value > 0 ? `+${value}` : String(value))
+
+const exportSlug = (plan: PlanSnapshot) =>
+  `${plan.label}-vs-${plan.opponent}-${plan.lockedAt.slice(0, 10)}`
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '')
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+// Table cells end at a pipe or a line break, so names containing either are escaped or flattened.
+const escapeMarkdownCell = (value: string) => value.replace(/\|/g, '\\|').replace(/\r?\n|\r/g, ' ')
+
+const sensitivityHeading = (plan: PlanSnapshot) => `Sensitivity (${formatSignedValue(plan.sensitivityStep)} per factor)`
+
+const distributionShare = (plan: PlanSnapshot, frequency: number) => {
+  const total = plan.distribution.reduce((sum, bin) => sum + bin.frequency, 0)
+  return total > 0 ? round((frequency / total) * 100) : 0
+}
+
+const planSummaryRows = (plan: PlanSnapshot): [string, string][] => [
+  ['Opponent', plan.opponent],
+  ['Locked at', new Date(plan.lockedAt).toLocaleString()],
+  ['Plan score', String(plan.score)],
+  ['Win probability', `${plan.winProbability}%`],
+  ['Monte Carlo win', `${plan.monteWinRate}%`],
+  ['Expected margin', formatSignedValue(plan.expectedMargin)],
+  ['Risk index', String(plan.riskIndex)],
+  [
+    'Scenario',
+    `pace ${formatSignedValue(plan.paceDelta)}, shooting ${formatSignedValue(plan.shootingDelta)}, turnovers ${formatSignedValue(plan.turnoverDelta)}`,
+  ],
+  ['Simulation', `${plan.settings.simulationRuns} runs · ${plan.settings.simulationMode} engine · seed ${plan.seed}`],
+]
+
+const planToMarkdown = (plan: PlanSnapshot) => {
+  const lines = [
+    `# Game Plan: ${escapeMarkdownCell(`${plan.label} vs ${plan.opponent}`)}`,
+    '',
+    '| Metric | Value |',
+    '| --- | --- |',
+    ...planSummaryRows(plan).map(([label, value]) => `| ${label} | ${escapeMarkdownCell(value)} |`),
+    '',
+    '## Lineup',
+    '',
+    '| Player | Pos | Salary |',
+    '| --- | --- | ---: |',
+    ...plan.lineup.map(
+      (player) =>
+        `| ${escapeMarkdownCell(player.name)} | ${escapeMarkdownCell(player.position)} | $${player.salary.toLocaleString()} |`,
+    ),
+    `| **Total** | | **$${plan.totalSalary.toLocaleString()}** |`,
+    '',
+    '## Monte Carlo Margin Distribution',
+    '',
+    '| Margin | Games | Share |',
+    '| --- | ---: | ---: |',
+    ...plan.distribution.map((bin) => `| ${bin.range} | ${bin.frequency} | ${distributionShare(plan, bin.frequency)}% |`),
+    '',
+    `## ${sensitivityHeading(plan)}`,
+    '',
+    ...plan.sensitivity.map((item) => `- ${item.factor}: ${formatSignedValue(item.deltaWinProbability)} win %`),
+    '',
+    ...(plan.availabilityImpact.length > 0
+      ? [
+          '## Uncertain Availability',
+          '',
+          '| Player | Plays | Win if plays | Win if sits | Swing |',
+          '| --- | ---: | ---: | ---: | ---: |',
+          ...plan.availabilityImpact.map(
+            (item) =>
+              `| ${escapeMarkdownCell(item.name)} | ${Math.round(item.playProbability * 100)}% | ${item.winIfPlays}% | ${item.winIfSits}% | ${formatSignedValue(item.swing)} |`,
+          ),
+          '',
+        ]
+      : []),
+    '## Tactical Actions',
+    '',
+    ...plan.recommendations.map((item, index) => `${index + 1}. **${item.title}** (impact ${item.impact}) — ${item.detail}`),
+    '',
+  ]
+
+  return lines.join('\n')
+}
+
+const planToHtml = (plan: PlanSnapshot) => {
+  const maxFrequency = Math.max(1, ...plan.distribution.map((bin) => bin.frequency))
+  const title = escapeHtml(`${plan.label} vs ${plan.opponent}`)
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<title>Game Plan: ${title}</title>
+<style>
+  @page { size: letter; margin: 0.5in; }
+  body { font-family: system-ui, sans-serif; color: #10213d; font-size: 11pt; margin: 0; }
+  h1 { font-size: 18pt; margin: 0 0 0.2rem; }
+  h2 { font-size: 12pt; margin: 0.9rem 0 0.3rem; border-bottom: 1px solid #cbd5e1; padding-bottom: 0.15rem; }
+  .grid { display: grid; grid-template-columns: 1fr 1fr; gap: 0 1.2rem; }
+  table { width: 100%; border-collapse: collapse; }
+  td, th { padding: 0.18rem 0.3rem; text-align: left; border-bottom: 1px solid #e2e8f0; }
+  .num { text-align: right; }
+  .bar { background: #2563eb; height: 0.55rem; }
+  ol { margin: 0; padding-left: 1.1rem; }
+  li { margin-bottom: 0.3rem; break-inside: avoid; }
+  .muted { color: #64748b; font-size: 9pt; }
+</style>
+</head>
+<body>
+<h1>Game Plan: ${title}</h1>
+<p class="muted">Locked ${escapeHtml(new Date(plan.lockedAt).toLocaleString())} · seed ${plan.seed}</p>
+<div class="grid">
+<section>
+<h2>Summary</h2>
+<table>
+${planSummaryRows(plan)
+  .slice(2)
+  .map(([label, value]) => `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`)
+  .join('\n')}
+</table>
+</section>
+<section>
+<h2>Lineup</h2>
+<table>
+<tr><th>Player</th><th>Pos</th><th class="num">Salary</th></tr>
+${plan.lineup
+  .map(
+    (player) =>
+      `<tr><td>${escapeHtml(player.name)}</td><td>${escapeHtml(player.position)}</td><td class="num">$${player.salary.toLocaleString()}</td></tr>`,
+  )
+  .join('\n')}
+<tr><th>Total</th><td></td><th class="num">$${plan.totalSalary.toLocaleString()}</th></tr>
+</table>
+</section>
+<section>
+<h2>Monte Carlo Margin Distribution</h2>
+<table>
+${plan.distribution
+  .map(
+    (bin) =>
+      `<tr><td>${escapeHtml(bin.range)}</td><td style="width:60%"><div class="bar" style="width:${Math.round((bin.frequency / maxFrequency) * 100)}%"></div></td><td class="num">${distributionShare(plan, bin.frequency)}%</td></tr>`,
+  )
+  .join('\n')}
+</table>
+</section>
+<section>
+<h2>${escapeHtml(sensitivityHeading(plan))}</h2>
+<table>
+${plan.sensitivity
+  .map(
+    (item) =>
+      `<tr><td>${escapeHtml(item.factor)}</td><td class="num">${formatSignedValue(item.deltaWinProbability)} win %</td></tr>`,
+  )
+  .join('\n')}
+</table>
+</section>
+</div>
+${
+  plan.availabilityImpact.length > 0
+    ? `<h2>Uncertain Availability</h2>
+<table>
+<tr><th>Player</th><th class="num">Plays</th><th class="num">Win if plays</th><th class="num">Win if sits</th><th class="num">Swing</th></tr>
+${plan.availabilityImpact
+  .map(
+    (item) =>
+      `<tr><td>${escapeHtml(item.name)}</td><td class="num">${Math.round(item.playProbability * 100)}%</td><td class="num">${item.winIfPlays}%</td><td class="num">${item.winIfSits}%</td><td class="num">${formatSignedValue(item.swing)}</td></tr>`,
+  )
+  .join('\n')}
+</table>`
+    : ''
+}
+<h2>Tactical Actions</h2>
+<ol>
+${plan.recommendations
+  .map((item) => `<li><strong>${escapeHtml(item.title)}</strong> (impact ${item.impact}) — ${escapeHtml(item.detail)}</li>`)
+  .join('\n')}
+</ol>
+</body>
+</html>
+`
+}
+
+/** Renders a locked plan as a downloadable game-day packet; the HTML variant is laid out for a single printed page. */
+export const exportPlan = (plan: PlanSnapshot, format: PlanExportFormat): PlanExport => {
+  const slug = exportSlug(plan)
+
+  if (format === 'json') {
+    return {
+      filename: `${slug}.json`,
+      mimeType: 'application/json',
+      content: JSON.stringify(plan, null, 2),
+    }
+  }
+
+  if (format === 'markdown') {
+    return { filename: `${slug}.md`, mimeType: 'text/markdown', content: planToMarkdown(plan) }
+  }
+
+  return { filename: `${slug}.html`, mimeType: 'text/html', content: planToHtml(plan) }
+}
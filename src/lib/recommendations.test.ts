@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest'
+import { buildRuleContext, DEFAULT_RECOMMENDATION_RULES, generateRecommendations } from './recommendations'
+import { teamProfile } from '../data/mockData'
+import type { MatchupMismatch, RecommendationRule, RuleContext } from '../types'
+
+const noMatchups = { pairs: [], mismatches: [], sizeEdge: 0, speedEdge: 0 }
+const context = (paceDelta: number, shootingDelta: number, turnoverDelta: number, opponentNetRating = 0): RuleContext =>
+  buildRuleContext(teamProfile, { paceDelta, shootingDelta, turnoverDelta }, opponentNetRating, null, noMatchups)
+
+describe('generateRecommendations', () => {
+  it('fires the default game rules with their impact formulas, highest impact first', () => {
+    const actions = generateRecommendations(DEFAULT_RECOMMENDATION_RULES, context(4, -1, 2))
+
+    expect(actions).toEqual([
+      expect.objectContaining({ title: 'Push transition volume', impact: 10.4, rule: 'Tempo edge' }),
+      expect.objectContaining({ title: 'Prioritize low-risk sets', impact: 7, rule: 'Ball security' }),
+      expect.objectContaining({ title: 'Shift shot profile inward', impact: 3.6, rule: 'Cold shooting' }),
+    ])
+  })
+
+  it('falls back to the steady-state action only when nothing else fires', () => {
+    expect(generateRecommendations(DEFAULT_RECOMMENDATION_RULES, context(0, 1, 0)).map((action) => action.rule)).toEqual([
+      'Nothing stands out',
+    ])
+  })
+
+  it('fires mismatch rules once per matching matchup with the players filled in', () => {
+    const mismatch: MatchupMismatch = {
+      kind: 'size',
+      favors: 'us',
+      position: 'C',
+      ourPlayer: 'Ike Moss',
+      theirPlayer: 'Lee Park',
+      edge: 3,
+      detail: 'Ike Moss out-sizes Lee Park at C (size edge 3.0)',
+    }
+    const [action] = generateRecommendations(DEFAULT_RECOMMENDATION_RULES, context(0, 1, 0), [mismatch])
+
+    expect(action).toEqual({
+      title: 'Play through Ike Moss inside',
+      detail: 'Ike Moss out-sizes Lee Park at C (size edge 3.0). Feed the block early and crash the offensive glass.',
+      impact: 5.6,
+      rule: 'Size mismatch for us',
+    })
+  })
+
+  it('runs analyst rules with metric templates and skips disabled ones', () => {
+    const custom: RecommendationRule = {
+      id: 'custom-underdog',
+      name: 'Big underdog',
+      scope: 'game',
+      mismatchKind: 'any',
+      mismatchFavors: 'any',
+      conditions: [{ metric: 'netRatingGap', comparator: '<=', value: -5 }],
+      title: 'Shorten the game',
+      detail: 'Down {netRatingGap} on paper; milk the clock.',
+      impact: { metric: 'netRatingGap', scale: 0.5, base: 1 },
+      enabled: true,
+      builtIn: false,
+    }
+    const rules = [...DEFAULT_RECOMMENDATION_RULES.map((rule) => ({ ...rule, enabled: false })), custom]
+    const gap = teamProfile.offensiveRating - teamProfile.defensiveRating - 15
+
+    expect(generateRecommendations(rules, context(0, 0, 0, 15))).toEqual([
+      {
+        title: 'Shorten the game',
+        detail: `Down ${Number(gap.toFixed(1))} on paper; milk the clock.`,
+        impact: Number((1 + 0.5 * Math.abs(gap)).toFixed(1)),
+        rule: 'Big underdog',
+      },
+    ])
+    expect(generateRecommendations(rules, context(0, 0, 0))).toEqual([])
+  })
+})
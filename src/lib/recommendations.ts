@@ -0,0 +1,266 @@
+import { calculateNetRating, evaluateLineupChemistry } from './analytics'
+import type {
+  LineupResult,
+  MatchupMismatch,
+  MatchupReport,
+  Recommendation,
+  RecommendationRule,
+  RuleComparator,
+  RuleCondition,
+  RuleContext,
+  RuleMetric,
+  ScenarioInputs,
+  TeamProfile,
+} from '../types'
+
+export const RULE_METRIC_LABELS: Record<RuleMetric, string> = {
+  paceDelta: 'Pace delta',
+  shootingDelta: 'Shooting delta',
+  turnoverDelta: 'Turnover delta',
+  teamNetRating: 'Team net rating',
+  teamPace: 'Team pace',
+  opponentNetRating: 'Opponent net rating',
+  netRatingGap: 'Net rating gap (us − them)',
+  lineupChemistry: 'Lineup chemistry',
+  lineupPoints: 'Lineup projected points',
+  lineupDefense: 'Lineup defense impact',
+  matchupSizeEdge: 'Matchup size edge',
+  matchupSpeedEdge: 'Matchup speed edge',
+  mismatchEdge: 'Mismatch edge',
+}
+
+export const RULE_METRICS = Object.keys(RULE_METRIC_LABELS) as RuleMetric[]
+
+export const RULE_COMPARATORS: RuleComparator[] = ['>', '>=', '<', '<=']
+
+const mismatchRule = (
+  id: string,
+  name: string,
+  kind: MatchupMismatch['kind'],
+  favors: MatchupMismatch['favors'],
+  title: string,
+  detail: string,
+): RecommendationRule => ({
+  id,
+  name,
+  scope: 'mismatch',
+  mismatchKind: kind,
+  mismatchFavors: favors,
+  conditions: [],
+  title,
+  detail,
+  impact: { metric: 'mismatchEdge', scale: 1.2, base: 2 },
+  enabled: true,
+  builtIn: true,
+})
+
+/** The tactical actions the Decision Room has always produced, expressed as rules. */
+export const DEFAULT_RECOMMENDATION_RULES: RecommendationRule[] = [
+  {
+    id: 'push-transition',
+    name: 'Tempo edge',
+    scope: 'game',
+    mismatchKind: 'any',
+    mismatchFavors: 'any',
+    conditions: [{ metric: 'paceDelta', comparator: '>', value: 2 }],
+    title: 'Push transition volume',
+    detail: 'Increase early-clock actions and rim pressure to leverage tempo edge.',
+    impact: { metric: 'paceDelta', scale: 1.6, base: 4 },
+    enabled: true,
+    builtIn: true,
+  },
+  {
+    id: 'low-risk-sets',
+    name: 'Ball security',
+    scope: 'game',
+    mismatchKind: 'any',
+    mismatchFavors: 'any',
+    conditions: [{ metric: 'turnoverDelta', comparator: '>', value: 1 }],
+    title: 'Prioritize low-risk sets',
+    detail: 'Run more two-man actions and reduce cross-court passing against pressure.',
+    impact: { metric: 'turnoverDelta', scale: 2.5, base: 2 },
+    enabled: true,
+    builtIn: true,
+  },
+  {
+    id: 'shot-profile-inward',
+    name: 'Cold shooting',
+    scope: 'game',
+    mismatchKind: 'any',
+    mismatchFavors: 'any',
+    conditions: [{ metric: 'shootingDelta', comparator: '<', value: 0 }],
+    title: 'Shift shot profile inward',
+    detail: 'Compensate for cold perimeter shooting with paint touches and cut actions.',
+    impact: { metric: 'shootingDelta', scale: 2.1, base: 1.5 },
+    enabled: true,
+    builtIn: true,
+  },
+  {
+    id: 'defensive-rebounding',
+    name: 'Outmatched on paper',
+    scope: 'game',
+    mismatchKind: 'any',
+    mismatchFavors: 'any',
+    conditions: [{ metric: 'netRatingGap', comparator: '<', value: 0 }],
+    title: 'Defensive rebounding emphasis',
+    detail: 'Limit opponent second-chance points by tagging crashers and securing long rebounds.',
+    impact: { metric: null, scale: 0, base: 6.8 },
+    enabled: true,
+    builtIn: true,
+  },
+  mismatchRule(
+    'gang-rebound',
+    'Size mismatch against us',
+    'size',
+    'them',
+    'Gang rebound against {theirPlayer}',
+    '{detail}. Send a second body to the glass and front the post.',
+  ),
+  mismatchRule(
+    'play-inside',
+    'Size mismatch for us',
+    'size',
+    'us',
+    'Play through {ourPlayer} inside',
+    '{detail}. Feed the block early and crash the offensive glass.',
+  ),
+  mismatchRule(
+    'attack-in-space',
+    'Speed mismatch for us',
+    'speed',
+    'us',
+    'Attack {theirPlayer} in space',
+    '{detail}. Hunt that matchup in high pick-and-roll and early offense.',
+  ),
+  mismatchRule(
+    'build-a-wall',
+    'Speed mismatch against us',
+    'speed',
+    'them',
+    'Build a wall against {theirPlayer}',
+    '{detail}. Sprint back in transition and show early help on drives.',
+  ),
+  {
+    id: 'maintain-model',
+    name: 'Nothing stands out',
+    scope: 'fallback',
+    mismatchKind: 'any',
+    mismatchFavors: 'any',
+    conditions: [],
+    title: 'Maintain current game model',
+    detail: 'Current setup is balanced. Prioritize execution consistency and rotation discipline.',
+    impact: { metric: null, scale: 0, base: 4.5 },
+    enabled: true,
+    builtIn: true,
+  },
+]
+
+export const buildRuleContext = (
+  team: TeamProfile,
+  scenario: ScenarioInputs,
+  opponentNetRating: number,
+  lineup: LineupResult | null,
+  matchups: MatchupReport,
+): RuleContext => {
+  const teamNetRating = calculateNetRating(team)
+  return {
+    ...scenario,
+    teamNetRating,
+    teamPace: team.pace,
+    opponentNetRating,
+    netRatingGap: teamNetRating - opponentNetRating,
+    lineupChemistry: evaluateLineupChemistry(lineup?.lineup ?? []).overall,
+    lineupPoints: lineup?.projectedPoints ?? 0,
+    lineupDefense: lineup?.projectedDefenseImpact ?? 0,
+    matchupSizeEdge: matchups.sizeEdge,
+    matchupSpeedEdge: matchups.speedEdge,
+  }
+}
+
+type RuleValues = Partial<Record<RuleMetric, number>>
+
+const compare = (value: number, comparator: RuleComparator, threshold: number) => {
+  if (comparator === '>') {
+    return value > threshold
+  }
+  if (comparator === '>=') {
+    return value >= threshold
+  }
+  if (comparator === '<') {
+    return value < threshold
+  }
+  return value <= threshold
+}
+
+// A condition on a metric the rule's scope does not provide never holds.
+const conditionHolds = (condition: RuleCondition, values: RuleValues) => {
+  const value = values[condition.metric]
+  return value !== undefined && compare(value, condition.comparator, condition.value)
+}
+
+const matchesMismatch = (rule: RecommendationRule, mismatch: MatchupMismatch) =>
+  (rule.mismatchKind === 'any' || rule.mismatchKind === mismatch.kind) &&
+  (rule.mismatchFavors === 'any' || rule.mismatchFavors === mismatch.favors)
+
+/** Fills `{metric}` placeholders with one-decimal values and `{ourPlayer}`-style ones with text; unknown ones stay as written. */
+const fillTemplate = (template: string, values: RuleValues, text: Record<string, string>) =>
+  template.replace(/\{(\w+)\}/g, (placeholder, key: string) => {
+    const value = RULE_METRICS.includes(key as RuleMetric) ? values[key as RuleMetric] : undefined
+    if (value !== undefined) {
+      return String(Number(value.toFixed(1)))
+    }
+    return Object.hasOwn(text, key) ? text[key] : placeholder
+  })
+
+const fire = (rule: RecommendationRule, values: RuleValues, text: Record<string, string> = {}): Recommendation => ({
+  title: fillTemplate(rule.title, values, text),
+  detail: fillTemplate(rule.detail, values, text),
+  impact: Number(
+    (rule.impact.base + rule.impact.scale * Math.abs(rule.impact.metric ? (values[rule.impact.metric] ?? 0) : 0)).toFixed(1),
+  ),
+  rule: rule.name,
+})
+
+/**
+ * Runs the enabled rules: game rules once against the plan, mismatch rules once per flagged matchup
+ * they match, and fallback rules only when nothing else fired. Actions come back by impact; ties keep
+ * game actions first, in rule order, then mismatch actions in the order the matchups were flagged.
+ */
+export const generateRecommendations = (
+  rules: RecommendationRule[],
+  context: RuleContext,
+  mismatches: MatchupMismatch[] = [],
+): Recommendation[] => {
+  const enabled = rules.filter((rule) => rule.enabled)
+  const holds = (rule: RecommendationRule, values: RuleValues) =>
+    rule.conditions.every((condition) => conditionHolds(condition, values))
+  const inScope = (scope: RecommendationRule['scope']) => enabled.filter((rule) => rule.scope === scope)
+
+  const fired = [
+    ...inScope('game')
+      .filter((rule) => holds(rule, context))
+      .map((rule) => fire(rule, context)),
+    ...mismatches.flatMap((mismatch) => {
+      const values = { ...context, mismatchEdge: mismatch.edge }
+      return inScope('mismatch')
+        .filter((rule) => matchesMismatch(rule, mismatch) && holds(rule, values))
+        .map((rule) =>
+          fire(rule, values, {
+            ourPlayer: mismatch.ourPlayer,
+            theirPlayer: mismatch.theirPlayer,
+            position: mismatch.position,
+            detail: mismatch.detail,
+          }),
+        )
+    }),
+  ]
+
+  const recommendations =
+    fired.length > 0
+      ? fired
+      : inScope('fallback')
+          .filter((rule) => holds(rule, context))
+          .map((rule) => fire(rule, context))
+
+  return recommendations.sort((left, right) => right.impact - left.impact)
+}
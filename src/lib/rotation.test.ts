@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest'
+import { rankLineups } from './analytics'
+import { GAME_MINUTES, planRotation, SEGMENT_MINUTES } from './rotation'
+import { teamProfile } from '../data/mockData'
+import { balancedConstraints, createPlayerPool } from '../test/fixtures'
+
+describe('planRotation', () => {
+  const pool = createPlayerPool(12, 4)
+  const starterIds = rankLineups(pool, 60000, balancedConstraints, 1)[0].lineup.map((player) => player.id)
+  const positionOf = new Map(pool.map((player) => [player.id, player.position]))
+
+  it('fills every window with a legal five and opens with the blueprint starters', () => {
+    const plan = planRotation(teamProfile, pool, balancedConstraints, starterIds)
+
+    expect(plan.conflicts).toEqual([])
+    expect(plan.segments).toHaveLength(GAME_MINUTES / SEGMENT_MINUTES)
+    expect([...plan.segments[0].playerIds].sort()).toEqual([...starterIds].sort())
+    plan.segments.forEach((segment) => {
+      const positions = segment.playerIds.map((id) => positionOf.get(id))
+      expect(positions.filter((position) => position === 'G')).toHaveLength(2)
+      expect(positions.filter((position) => position === 'F')).toHaveLength(2)
+      expect(positions.filter((position) => position === 'C')).toHaveLength(1)
+    })
+    expect(plan.players.reduce((sum, player) => sum + player.plannedMinutes, 0)).toBe(GAME_MINUTES * 5)
+  })
+
+  it('keeps unavailable players on the bench and apart pairs off the floor together', () => {
+    const [injured, reserve] = pool.filter((player) => !starterIds.includes(player.id)).map((player) => player.id)
+    const starter = starterIds[0]
+    const plan = planRotation(
+      teamProfile,
+      pool,
+      { ...balancedConstraints, excludedPlayerIds: [injured], apartPairs: [[starter, reserve]] },
+      starterIds,
+    )
+
+    plan.segments.forEach((segment) => {
+      expect(segment.playerIds).not.toContain(injured)
+      expect(segment.playerIds.includes(starter) && segment.playerIds.includes(reserve)).toBe(false)
+    })
+    expect(plan.players.find((player) => player.id === reserve)?.plannedMinutes).toBeGreaterThan(0)
+  })
+})
@@ -0,0 +1,231 @@
+import {
+  OBJECTIVE_TO_MARGIN,
+  calculateNetRating,
+  explainLineupInfeasibility,
+  lineupObjective,
+  rankLineups,
+} from './analytics'
+import type {
+  LineupConstraints,
+  Player,
+  RotationGroup,
+  RotationPlan,
+  RotationPlayer,
+  RotationSegment,
+  TeamProfile,
+} from '../types'
+
+export const GAME_MINUTES = 48
+export const QUARTER_MINUTES = 12
+// Substitution windows line up with the two media timeouts in each quarter.
+export const SEGMENT_MINUTES = 4
+const SEGMENTS = GAME_MINUTES / SEGMENT_MINUTES
+const COURT_MINUTES = GAME_MINUTES * 5
+const MAX_TARGET_MINUTES = 42
+
+// Each minute on the floor costs 2% efficiency. A four-minute rest keeps 40% of the built-up fatigue,
+// a quarter break keeps 60%, and halftime clears it.
+const FATIGUE_PER_MINUTE = 0.02
+const BENCH_RECOVERY = 0.4
+const QUARTER_BREAK_RECOVERY = 0.6
+const MIN_EFFICIENCY = 0.6
+
+export type RotationInput = {
+  team: TeamProfile
+  roster: Player[]
+  constraints: LineupConstraints
+  starterIds: string[]
+}
+
+export type RotationRequest = {
+  type: 'run'
+  runId: number
+  input: RotationInput
+}
+
+export type RotationResponse =
+  | { type: 'result'; runId: number; plan: RotationPlan }
+  | { type: 'error'; runId: number; message: string }
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value))
+
+// Every box-score stat scales together, so the lineup objective scales by the same factor.
+const scaleProduction = (player: Player, factor: number): Player => ({
+  ...player,
+  points: player.points * factor,
+  assists: player.assists * factor,
+  rebounds: player.rebounds * factor,
+  steals: player.steals * factor,
+  blocks: player.blocks * factor,
+  turnovers: player.turnovers * factor,
+})
+
+const emptyRotation = (conflicts: string[]): RotationPlan => ({
+  segments: [],
+  players: [],
+  groups: [],
+  averageEfficiency: 0,
+  conflicts,
+})
+
+/**
+ * Schedules every available player across four quarters in four-minute windows. Minute targets come
+ * from each player's season minutes scaled to fill 240 court minutes; each window picks the best legal
+ * group under the formation and pair rules, weighting players by their current legs and by how far
+ * they are behind their target pace. The blueprint starters open both halves and the last window goes
+ * to the best group on the floor regardless of minutes.
+ *
+ * Net ratings are relative: the minute-weighted average of all groups equals the team's net rating,
+ * and each group sits above or below it by its fatigue-adjusted lineup objective.
+ */
+export const planRotation = (
+  team: TeamProfile,
+  roster: Player[],
+  constraints: LineupConstraints,
+  starterIds: string[],
+): RotationPlan => {
+  // Salary caps, locks and the minute floor shape who starts, not who can check in.
+  const rotationConstraints: LineupConstraints = {
+    ...constraints,
+    minMinutes: 0,
+    lockedPlayerIds: [],
+    positionSalaryCaps: {},
+  }
+  const available = roster.filter((player) => !constraints.excludedPlayerIds.includes(player.id))
+  const seasonMinutes = available.reduce((sum, player) => sum + player.minutes, 0)
+  const targets = new Map(
+    available.map((player) => [
+      player.id,
+      seasonMinutes > 0 ? Math.min(MAX_TARGET_MINUTES, (player.minutes * COURT_MINUTES) / seasonMinutes) : 0,
+    ]),
+  )
+  const starters = starterIds.filter((playerId) => available.some((player) => player.id === playerId))
+  const fatigue = new Map(available.map((player) => [player.id, 0]))
+  const played = new Map(available.map((player) => [player.id, 0]))
+  const playerEfficiency = new Map(available.map((player): [string, number[]] => [player.id, []]))
+  const conflicts: string[] = []
+  const planned: (Omit<RotationSegment, 'netRating'> & { objective: number })[] = []
+
+  for (let index = 0; index < SEGMENTS; index++) {
+    const start = index * SEGMENT_MINUTES
+    const end = start + SEGMENT_MINUTES
+
+    if (start > 0 && start % QUARTER_MINUTES === 0) {
+      const carryOver = start === GAME_MINUTES / 2 ? 0 : QUARTER_BREAK_RECOVERY
+      fatigue.forEach((value, playerId) => fatigue.set(playerId, value * carryOver))
+    }
+
+    const closing = index === SEGMENTS - 1
+    const pool = available.map((player) => {
+      const expected = ((targets.get(player.id) ?? 0) * end) / GAME_MINUTES
+      const pacing = clamp(1 + (expected - (played.get(player.id) ?? 0)) / SEGMENT_MINUTES, 0.05, 2)
+      const efficiency = Math.max(MIN_EFFICIENCY, 1 - (fatigue.get(player.id) ?? 0))
+      return scaleProduction(player, efficiency * (closing ? 1 : pacing))
+    })
+
+    const opensHalf = start % (GAME_MINUTES / 2) === 0 && starters.length > 0
+    const opening = opensHalf
+      ? rankLineups(pool, Number.POSITIVE_INFINITY, { ...rotationConstraints, lockedPlayerIds: starters }, 1)[0]
+      : undefined
+    const group = opening ?? rankLineups(pool, Number.POSITIVE_INFINITY, rotationConstraints, 1)[0]
+
+    if (!group) {
+      return emptyRotation(explainLineupInfeasibility(available, Number.POSITIVE_INFINITY, rotationConstraints))
+    }
+    if (opensHalf && !opening && index === 0) {
+      conflicts.push('The blueprint starters do not form a legal group under the current rules; the best available group opens instead.')
+    }
+
+    const onCourt = group.lineup.map((player) => available.find((entry) => entry.id === player.id) ?? player)
+    // Efficiency at the middle of the window stands in for the whole stint.
+    const efficiencies = onCourt.map((player) =>
+      Math.max(MIN_EFFICIENCY, 1 - (fatigue.get(player.id) ?? 0) - (FATIGUE_PER_MINUTE * SEGMENT_MINUTES) / 2),
+    )
+    onCourt.forEach((player, slot) => playerEfficiency.get(player.id)?.push(efficiencies[slot]))
+
+    planned.push({
+      quarter: Math.floor(start / QUARTER_MINUTES) + 1,
+      start,
+      end,
+      playerIds: onCourt.map((player) => player.id),
+      efficiency: efficiencies.reduce((sum, value) => sum + value, 0) / efficiencies.length,
+      objective: onCourt.reduce((sum, player, slot) => sum + lineupObjective(player) * efficiencies[slot], 0),
+    })
+
+    const onCourtIds = new Set(onCourt.map((player) => player.id))
+    available.forEach((player) => {
+      const current = fatigue.get(player.id) ?? 0
+      if (onCourtIds.has(player.id)) {
+        fatigue.set(player.id, current + FATIGUE_PER_MINUTE * SEGMENT_MINUTES)
+        played.set(player.id, (played.get(player.id) ?? 0) + SEGMENT_MINUTES)
+      } else {
+        fatigue.set(player.id, current * BENCH_RECOVERY)
+      }
+    })
+  }
+
+  const teamNet = calculateNetRating(team)
+  const averageObjective = planned.reduce((sum, segment) => sum + segment.objective, 0) / planned.length
+  // Lineup objective converts to points of margin per game, which at a typical pace is close to per 100 possessions.
+  const segments: RotationSegment[] = planned.map(({ objective, ...segment }) => ({
+    ...segment,
+    efficiency: Number((segment.efficiency * 100).toFixed(1)),
+    netRating: Number((teamNet + (objective - averageObjective) * OBJECTIVE_TO_MARGIN).toFixed(1)),
+  }))
+
+  const groupsByKey = new Map<string, RotationGroup>()
+  segments.forEach((segment) => {
+    const playerIds = [...segment.playerIds].sort()
+    const key = playerIds.join('|')
+    const group = groupsByKey.get(key) ?? {
+      playerIds,
+      names: segment.playerIds.map((playerId) => available.find((player) => player.id === playerId)?.name ?? playerId),
+      minutes: 0,
+      netRating: 0,
+    }
+    // Running minute-weighted average of the group's windows.
+    group.netRating = (group.netRating * group.minutes + segment.netRating * SEGMENT_MINUTES) / (group.minutes + SEGMENT_MINUTES)
+    group.minutes += SEGMENT_MINUTES
+    groupsByKey.set(key, group)
+  })
+
+  const players: RotationPlayer[] = available
+    .map((player) => {
+      const stints = segments
+        .filter((segment) => segment.playerIds.includes(player.id))
+        .reduce<RotationPlayer['stints']>((merged, segment) => {
+          const last = merged[merged.length - 1]
+          if (last && last.end === segment.start) {
+            last.end = segment.end
+            return merged
+          }
+          return [...merged, { start: segment.start, end: segment.end }]
+        }, [])
+      const efficiencies = playerEfficiency.get(player.id) ?? []
+      return {
+        id: player.id,
+        name: player.name,
+        position: player.position,
+        targetMinutes: Number((targets.get(player.id) ?? 0).toFixed(1)),
+        plannedMinutes: played.get(player.id) ?? 0,
+        stints,
+        averageEfficiency:
+          efficiencies.length > 0
+            ? Number(((efficiencies.reduce((sum, value) => sum + value, 0) / efficiencies.length) * 100).toFixed(1))
+            : 0,
+      }
+    })
+    .sort((left, right) => right.plannedMinutes - left.plannedMinutes || right.targetMinutes - left.targetMinutes)
+
+  return {
+    segments,
+    players,
+    groups: [...groupsByKey.values()]
+      .map((group) => ({ ...group, netRating: Number(group.netRating.toFixed(1)) }))
+      .sort((left, right) => right.minutes - left.minutes || right.netRating - left.netRating),
+    averageEfficiency: Number(
+      (segments.reduce((sum, segment) => sum + segment.efficiency, 0) / segments.length).toFixed(1),
+    ),
+    conflicts,
+  }
+}
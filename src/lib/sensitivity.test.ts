@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_MODEL_COEFFICIENTS, matchupWinProbabilityCurve } from './analytics'
+import { calculateTornado, GRID_POINTS, sweepScenarioGrid, type SweepContext } from './sensitivity'
+import { teamProfile } from '../data/mockData'
+
+const context: SweepContext = {
+  team: teamProfile,
+  // A plan this far below its shooting norm sits near a coin flip, so both sweeps cross 50%.
+  scenario: { paceDelta: 0, shootingDelta: -28, turnoverDelta: 0 },
+  opponentNetRating: 12,
+  coefficients: DEFAULT_MODEL_COEFFICIENTS,
+  opponentPace: 98,
+}
+
+const curveAt = (shootingDelta: number) =>
+  matchupWinProbabilityCurve(
+    context.team,
+    { ...context.scenario, shootingDelta },
+    context.opponentNetRating,
+    context.coefficients,
+    context.opponentPace,
+  )
+
+describe('calculateTornado', () => {
+  it('sorts factors by swing and places each break-even on the 50% crossing of the unrounded curve', () => {
+    const bars = calculateTornado(context, 4)
+    expect(bars.map((bar) => bar.swing)).toEqual([...bars.map((bar) => bar.swing)].sort((left, right) => right - left))
+
+    const shooting = bars.find((bar) => bar.factor === 'shootingDelta')
+    expect(shooting?.breakEven).not.toBeNull()
+    const breakEven = shooting?.breakEven ?? 0
+    expect(Math.sign(curveAt(breakEven - 0.1) - 50)).not.toBe(Math.sign(curveAt(breakEven + 0.1) - 50))
+  })
+})
+
+describe('sweepScenarioGrid', () => {
+  it('sweeps both factors around the plan and outlines the cells beside the 50% line', () => {
+    const grid = sweepScenarioGrid(context, 'paceDelta', 'shootingDelta', 6)
+    expect(grid.xValues).toHaveLength(GRID_POINTS)
+    expect(grid.xValues[0]).toBe(-6)
+    expect(grid.yValues[0]).toBe(-22)
+    expect(grid.rows.flat().some((cell) => cell.breakEven)).toBe(true)
+    expect(grid.rows[0][GRID_POINTS - 1].winProbability).toBeGreaterThan(grid.rows[GRID_POINTS - 1][0].winProbability)
+  })
+})
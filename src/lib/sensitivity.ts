@@ -0,0 +1,141 @@
+import { matchupWinProbabilityCurve, projectMatchupWinProbability } from './analytics'
+import type {
+  ModelCoefficients,
+  ScenarioFactor,
+  ScenarioInputs,
+  SensitivityCell,
+  SensitivityGrid,
+  TeamProfile,
+  TornadoBar,
+} from '../types'
+
+export const SCENARIO_FACTORS: ScenarioFactor[] = ['paceDelta', 'shootingDelta', 'turnoverDelta']
+
+export const SCENARIO_FACTOR_LABELS: Record<ScenarioFactor, string> = {
+  paceDelta: 'Pace',
+  shootingDelta: 'Shooting',
+  turnoverDelta: 'Turnovers',
+}
+
+export const GRID_POINTS = 9
+// Break-even searches look this far beyond the plan's own value before giving up.
+export const BREAK_EVEN_REACH = 30
+const BREAK_EVEN_ITERATIONS = 40
+const FAVORED_THRESHOLD = 50
+
+export type SweepContext = {
+  team: TeamProfile
+  scenario: ScenarioInputs
+  opponentNetRating: number
+  coefficients: ModelCoefficients
+  opponentPace?: number
+}
+
+const round = (value: number, digits = 1) => Number(value.toFixed(digits))
+
+const winAt = (context: SweepContext, scenario: ScenarioInputs) =>
+  projectMatchupWinProbability(
+    context.team,
+    scenario,
+    context.opponentNetRating,
+    context.coefficients,
+    context.opponentPace,
+  )
+
+const sweepValues = (center: number, range: number) =>
+  Array.from({ length: GRID_POINTS }, (_, index) => round(center - range + (2 * range * index) / (GRID_POINTS - 1)))
+
+/**
+ * Bisection for the factor value where the plan drops to a coin flip, holding the other factors. It runs on
+ * the unrounded curve so the rounded Win % plateau around 50 cannot shift the answer; only the result is rounded.
+ */
+const findBreakEven = (context: SweepContext, factor: ScenarioFactor) => {
+  const center = context.scenario[factor]
+  const gap = (value: number) =>
+    matchupWinProbabilityCurve(
+      context.team,
+      { ...context.scenario, [factor]: value },
+      context.opponentNetRating,
+      context.coefficients,
+      context.opponentPace,
+    ) - FAVORED_THRESHOLD
+  let low = center - BREAK_EVEN_REACH
+  let high = center + BREAK_EVEN_REACH
+  if (Math.sign(gap(low)) === Math.sign(gap(high))) {
+    return null
+  }
+
+  for (let iteration = 0; iteration < BREAK_EVEN_ITERATIONS; iteration++) {
+    const middle = (low + high) / 2
+    if (Math.sign(gap(middle)) === Math.sign(gap(low))) {
+      low = middle
+    } else {
+      high = middle
+    }
+  }
+  return round((low + high) / 2)
+}
+
+/**
+ * One-factor sweep over ±`range` around the plan, widest swing first. Replaces the fixed +2 nudge of
+ * `calculateScenarioSensitivity` when a coach wants to see how far a factor can move the result.
+ */
+export const calculateTornado = (context: SweepContext, range: number): TornadoBar[] =>
+  SCENARIO_FACTORS.map((factor) => {
+    const center = context.scenario[factor]
+    const lowWinProbability = winAt(context, { ...context.scenario, [factor]: center - range })
+    const highWinProbability = winAt(context, { ...context.scenario, [factor]: center + range })
+    return {
+      factor,
+      label: SCENARIO_FACTOR_LABELS[factor],
+      low: round(center - range),
+      high: round(center + range),
+      lowWinProbability: round(lowWinProbability),
+      highWinProbability: round(highWinProbability),
+      swing: round(Math.abs(highWinProbability - lowWinProbability)),
+      breakEven: findBreakEven(context, factor),
+    }
+  }).sort((left, right) => right.swing - left.swing)
+
+/**
+ * Win probability over a grid of two scenario factors centered on the plan, with the third held at
+ * the plan's value. Cells on either side of the 50% line mark the one closer to it, tracing the
+ * break-even contour where the plan stops being favored.
+ */
+export const sweepScenarioGrid = (
+  context: SweepContext,
+  xFactor: ScenarioFactor,
+  yFactor: ScenarioFactor,
+  range: number,
+): SensitivityGrid => {
+  const xValues = sweepValues(context.scenario[xFactor], range)
+  // Rows run top to bottom, so the y axis reads high to low like a chart.
+  const yValues = sweepValues(context.scenario[yFactor], range).reverse()
+  const rows: SensitivityCell[][] = yValues.map((y) =>
+    xValues.map((x) => ({
+      x,
+      y,
+      winProbability: round(winAt(context, { ...context.scenario, [xFactor]: x, [yFactor]: y })),
+      breakEven: false,
+    })),
+  )
+
+  const markCrossing = (first: SensitivityCell, second: SensitivityCell | undefined) => {
+    if (!second || (first.winProbability >= FAVORED_THRESHOLD) === (second.winProbability >= FAVORED_THRESHOLD)) {
+      return
+    }
+    const closer =
+      Math.abs(first.winProbability - FAVORED_THRESHOLD) <= Math.abs(second.winProbability - FAVORED_THRESHOLD)
+        ? first
+        : second
+    closer.breakEven = true
+  }
+  rows.forEach((row, rowIndex) =>
+    row.forEach((cell, columnIndex) => {
+      markCrossing(cell, row[columnIndex + 1])
+      markCrossing(cell, rows[rowIndex + 1]?.[columnIndex])
+    }),
+  )
+
+  return { xFactor, yFactor, xValues, yValues, rows, baseline: round(winAt(context, context.scenario)) }
+}
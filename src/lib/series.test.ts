@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest'
+import { SERIES_LENGTH, simulateSeries, type SeriesInput } from './series'
+import { createTournamentInput } from '../test/fixtures'
+
+// A strong opponent keeps the series close enough for home court and injuries to show.
+const seriesInput = (overrides: Partial<SeriesInput> = {}): SeriesInput => ({
+  ...createTournamentInput({
+    opponent: { name: 'Metro Elite', offensiveRating: 121, defensiveRating: 109, pace: 99 },
+    opponentNetRating: 12,
+    simulationRuns: 2000,
+  }),
+  homeCourt: true,
+  injuryRecurrence: 0,
+  ...overrides,
+})
+
+describe('simulateSeries', () => {
+  const summary = simulateSeries(seriesInput())
+
+  it('plans seven games on a 2-2-1-1-1 home-court rotation', () => {
+    expect(summary.conflicts).toEqual([])
+    expect(summary.games).toHaveLength(SERIES_LENGTH)
+    expect(summary.games.map((game) => game.home)).toEqual([true, true, false, false, true, false, true])
+    expect(simulateSeries(seriesInput({ homeCourt: false })).games.map((game) => game.home)).toEqual([
+      false,
+      false,
+      true,
+      true,
+      false,
+      true,
+      false,
+    ])
+  })
+
+  it('reports a series length distribution that covers every simulated series', () => {
+    const total = summary.lengthDistribution.reduce((sum, bin) => sum + bin.wins + bin.losses, 0)
+    const wins = summary.lengthDistribution.reduce((sum, bin) => sum + bin.wins, 0)
+
+    expect(total).toBeCloseTo(100, 0)
+    expect(wins).toBeCloseTo(summary.seriesWinProbability, 0)
+    expect(summary.expectedGames).toBeGreaterThanOrEqual(4)
+    expect(summary.expectedGames).toBeLessThanOrEqual(7)
+    expect(summary.games.slice(0, 4).every((game) => game.reachProbability === 100)).toBe(true)
+  })
+
+  it('carries fatigue from game to game', () => {
+    expect(summary.games[0].averageFatigue).toBe(0)
+    expect(summary.games[1].averageFatigue).toBeGreaterThan(0)
+  })
+
+  it('favors the team with home court and penalizes injury recurrence', () => {
+    const away = simulateSeries(seriesInput({ homeCourt: false }))
+    const injuryProne = simulateSeries(seriesInput({ injuryRecurrence: 0.2 }))
+
+    expect(summary.seriesWinProbability).toBeGreaterThan(away.seriesWinProbability)
+    expect(summary.seriesWinProbability).toBeGreaterThan(injuryProne.seriesWinProbability)
+  })
+
+  it('reproduces a series from its seed', () => {
+    expect(simulateSeries(seriesInput())).toEqual(summary)
+  })
+})
@@ -0,0 +1,242 @@
+import {
+  MARGIN_STANDARD_DEVIATION,
+  OBJECTIVE_TO_MARGIN,
+  createSeededRandom,
+  explainLineupInfeasibility,
+  gameMarginSpread,
+  randomNormal,
+  rankLineups,
+} from './analytics'
+import { buildAvailabilityModel } from './availability'
+import { evaluateStrategyCandidate, type TournamentInput } from './tournament'
+import type { AvailabilityModel, LineupResult, Player, SeriesGamePlan, SeriesSummary, StrategyCandidate } from '../types'
+
+export const SERIES_LENGTH = 7
+const WINS_NEEDED = 4
+
+// 2-2-1-1-1: the team with home court hosts games 1, 2, 5 and 7.
+const HOME_COURT_SCHEDULE = [true, true, false, false, true, false, true]
+export const HOME_COURT_MARGIN = 2.4
+
+// Fatigue is the share of a player's production lost. Each game adds load in proportion to minutes
+// played, and the day off between games clears part of it.
+const FATIGUE_LOAD_PER_48 = 0.08
+const FATIGUE_RECOVERY = 0.55
+const MAX_FATIGUE = 0.3
+// Pushing tempo on tired legs costs this many points per pace step per unit of fatigue.
+const TEMPO_FATIGUE_COST = 3
+
+export type SeriesInput = TournamentInput & {
+  homeCourt: boolean
+  injuryRecurrence: number
+}
+
+export type SeriesRequest = {
+  type: 'run'
+  runId: number
+  input: SeriesInput
+}
+
+export type SeriesResponse =
+  | { type: 'result'; runId: number; summary: SeriesSummary }
+  | { type: 'error'; runId: number; message: string }
+
+type PlannedGame = {
+  plan: SeriesGamePlan
+  meanMargin: number
+  spread: number
+  lineupFatigue: Map<string, number>
+  starterOutShift: Map<string, number>
+}
+
+// Abramowitz-Stegun approximation; accurate to about 1e-7, plenty for a win percentage.
+const normalCdf = (value: number) => {
+  const t = 1 / (1 + 0.3275911 * Math.abs(value) / Math.SQRT2)
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))))
+  const erf = 1 - poly * Math.exp(-(value * value) / 2)
+  return value >= 0 ? (1 + erf) / 2 : (1 - erf) / 2
+}
+
+const applyFatigue = (player: Player, fatigue: number): Player => {
+  const factor = 1 - fatigue
+  return {
+    ...player,
+    points: player.points * factor,
+    assists: player.assists * factor,
+    rebounds: player.rebounds * factor,
+    steals: player.steals * factor,
+    blocks: player.blocks * factor,
+    fgPct: player.fgPct * (1 - fatigue / 2),
+    threePct: player.threePct * (1 - fatigue / 2),
+  }
+}
+
+const lineupKey = (lineup: LineupResult) => lineup.lineup.map((player) => player.id).join('|')
+
+/**
+ * Plans every game of a best-of-seven up front: the roster tires according to its minutes, the
+ * lineup is re-optimized on tired legs, and each archetype is re-scored with home court and
+ * fatigue folded into its expected margin. Series outcomes are then sampled game by game, with
+ * starters occasionally missing the next game when injury recurrence is on.
+ */
+export const simulateSeries = (input: SeriesInput): SeriesSummary => {
+  const { roster, budget, constraints, weights } = input
+  const runs = Math.min(10000, Math.max(200, Math.round(input.simulationRuns)))
+  const freshBest = rankLineups(roster, budget, constraints, 1)[0]
+
+  if (!freshBest || input.archetypes.length === 0) {
+    return {
+      seriesWinProbability: 0,
+      expectedGames: 0,
+      lengthDistribution: [],
+      games: [],
+      seed: input.simulationSeed >>> 0,
+      conflicts: freshBest
+        ? ['No strategy archetypes to choose from.']
+        : explainLineupInfeasibility(roster, budget, constraints),
+    }
+  }
+
+  const candidateCache = new Map<string, StrategyCandidate>()
+  const availabilityCache = new Map<string, AvailabilityModel | undefined>()
+  const fatigue = new Map(roster.map((player) => [player.id, 0]))
+  const available = roster.filter((player) => !constraints.excludedPlayerIds.includes(player.id))
+  const planned: PlannedGame[] = []
+
+  for (let index = 0; index < SERIES_LENGTH; index++) {
+    const pool = roster.map((player) => applyFatigue(player, fatigue.get(player.id) ?? 0))
+    const lineup = rankLineups(pool, budget, constraints, 1)[0] ?? freshBest
+    const lineupFatigue = new Map(lineup.lineup.map((player) => [player.id, fatigue.get(player.id) ?? 0]))
+    const averageFatigue = [...lineupFatigue.values()].reduce((sum, value) => sum + value, 0) / lineup.lineup.length
+    const home = input.homeCourt ? HOME_COURT_SCHEDULE[index] : !HOME_COURT_SCHEDULE[index]
+    const baseShift = (home ? HOME_COURT_MARGIN : -HOME_COURT_MARGIN) + (lineup.objective - freshBest.objective) * OBJECTIVE_TO_MARGIN
+
+    const lineupId = lineupKey(lineup)
+    if (!availabilityCache.has(lineupId)) {
+      availabilityCache.set(lineupId, buildAvailabilityModel(roster, budget, constraints, lineup, input.playProbabilities))
+    }
+    const availability = availabilityCache.get(lineupId)
+
+    const options = input.archetypes.map((archetype) => {
+      const key = `${archetype.id}:${lineupId}`
+      const candidate =
+        candidateCache.get(key) ?? evaluateStrategyCandidate(input, archetype, lineup, availability, input.simulationRuns)
+      candidateCache.set(key, candidate)
+
+      const meanMargin =
+        candidate.expectedMargin + baseShift - Math.max(0, candidate.scenario.paceDelta) * averageFatigue * TEMPO_FATIGUE_COST
+      const spread = gameMarginSpread(input.team, candidate.scenario, input.opponent?.pace)
+      const winProbability = normalCdf(meanMargin / spread) * 100
+      // Same composite the tournament ranks by, with the simulated win rate swapped for this game's odds.
+      const adjustedScore = candidate.score + weights.monte * (winProbability - candidate.monteWinRate)
+      return { candidate, meanMargin, spread, winProbability, adjustedScore }
+    })
+    const best = options.reduce((leader, option) => (option.adjustedScore > leader.adjustedScore ? option : leader))
+
+    const starterOutShift = new Map(
+      lineup.lineup.map((starter) => {
+        const replacement = rankLineups(
+          pool,
+          budget,
+          {
+            ...constraints,
+            excludedPlayerIds: [...constraints.excludedPlayerIds, starter.id],
+            lockedPlayerIds: constraints.lockedPlayerIds.filter((playerId) => playerId !== starter.id),
+          },
+          1,
+        )[0]
+        // Without a legal replacement lineup the game is treated as a full standard deviation worse.
+        const shift = replacement
+          ? (replacement.objective - lineup.objective) * OBJECTIVE_TO_MARGIN
+          : -MARGIN_STANDARD_DEVIATION
+        return [starter.id, shift]
+      }),
+    )
+
+    planned.push({
+      plan: {
+        game: index + 1,
+        home,
+        planId: best.candidate.id,
+        label: best.candidate.label,
+        lineup: lineup.lineup.map((player) => ({ id: player.id, name: player.name, position: player.position })),
+        winProbability: Number(best.winProbability.toFixed(1)),
+        expectedMargin: Number(best.meanMargin.toFixed(2)),
+        averageFatigue: Number((averageFatigue * 100).toFixed(1)),
+        reachProbability: 0,
+      },
+      meanMargin: best.meanMargin,
+      spread: best.spread,
+      lineupFatigue,
+      starterOutShift,
+    })
+
+    available.forEach((player) => {
+      const loaded = Math.min(MAX_FATIGUE, (fatigue.get(player.id) ?? 0) + (player.minutes / 48) * FATIGUE_LOAD_PER_48)
+      fatigue.set(player.id, loaded * FATIGUE_RECOVERY)
+    })
+  }
+
+  const random = createSeededRandom(input.simulationSeed)
+  const reached = Array.from({ length: SERIES_LENGTH }, () => 0)
+  const winsByLength = Array.from({ length: SERIES_LENGTH + 1 }, () => 0)
+  const lossesByLength = Array.from({ length: SERIES_LENGTH + 1 }, () => 0)
+  let seriesWins = 0
+  let totalGames = 0
+
+  for (let run = 0; run < runs; run++) {
+    let wins = 0
+    let losses = 0
+    let sidelined = new Set<string>()
+
+    for (let index = 0; wins < WINS_NEEDED && losses < WINS_NEEDED; index++) {
+      const game = planned[index]
+      reached[index] += 1
+
+      let margin = game.meanMargin + randomNormal(random) * game.spread
+      sidelined.forEach((playerId) => {
+        margin += game.starterOutShift.get(playerId) ?? 0
+      })
+
+      if (margin > 0) {
+        wins += 1
+      } else {
+        losses += 1
+      }
+
+      const next = new Set<string>()
+      if (input.injuryRecurrence > 0) {
+        game.lineupFatigue.forEach((playerFatigue, playerId) => {
+          if (!sidelined.has(playerId) && random() < input.injuryRecurrence * (1 + playerFatigue)) {
+            next.add(playerId)
+          }
+        })
+      }
+      sidelined = next
+    }
+
+    const length = wins + losses
+    totalGames += length
+    if (wins === WINS_NEEDED) {
+      seriesWins += 1
+      winsByLength[length] += 1
+    } else {
+      lossesByLength[length] += 1
+    }
+  }
+
+  const percent = (count: number) => Number(((count / runs) * 100).toFixed(1))
+
+  return {
+    seriesWinProbability: percent(seriesWins),
+    expectedGames: Number((totalGames / runs).toFixed(2)),
+    lengthDistribution: [4, 5, 6, 7].map((games) => ({
+      games,
+      wins: percent(winsByLength[games]),
+      losses: percent(lossesByLength[games]),
+    })),
+    games: planned.map(({ plan }, index) => ({ ...plan, reachProbability: percent(reached[index]) })),
+    seed: input.simulationSeed >>> 0,
+    conflicts: [],
+  }
+}
@@ -0,0 +1,180 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_MODEL_COEFFICIENTS } from './analytics'
+import {
+  decodeSessionHash,
+  encodeSessionHash,
+  parseSessionConfig,
+  resolveSessionPlayers,
+  SESSION_CONFIG_VERSION,
+  sessionOpponentRow,
+} from './session'
+import { players } from '../data/mockData'
+import type { SessionConfig } from '../types'
+
+const defaults: SessionConfig = {
+  version: SESSION_CONFIG_VERSION,
+  viewMode: 'setup',
+  settings: {
+    opponent: 'league-average',
+    formationId: 'balanced',
+    priorityMode: 'balanced',
+    strategyIntensity: 6,
+    budget: 36000,
+    minimumMinutes: 22,
+    simulationRuns: 2500,
+    simulationSeed: 1,
+    simulationMode: 'margin',
+    injuredPlayerIds: [],
+    playProbabilities: {},
+    lockedPlayerIds: [],
+    togetherPairs: [],
+    apartPairs: [],
+    positionSalaryCaps: {},
+    modelVersionId: 'default',
+  },
+  opponentProfile: null,
+  formation: { id: 'balanced', label: 'Balanced', guards: 2, forwards: 2, centers: 1, flexSlots: {}, builtIn: true },
+  customArchetypes: [],
+  modelCoefficients: DEFAULT_MODEL_COEFFICIENTS,
+}
+
+const versionTwo = {
+  version: 2,
+  viewMode: 'strategy',
+  settings: { ...defaults.settings, budget: 30000, lockedPlayerIds: ['p1'], modelVersionId: undefined, playProbabilities: undefined },
+  opponentProfile: { name: 'Metro Elite', offensiveRating: 119, defensiveRating: 108, pace: 99 },
+  formation: null,
+  customArchetypes: [],
+}
+
+describe('parseSessionConfig', () => {
+  it('upgrades a version 2 document to the current version', () => {
+    const { config, errors, migratedFrom } = parseSessionConfig(versionTwo, defaults)
+
+    expect(errors).toEqual([])
+    expect(migratedFrom).toBe(2)
+    expect(config?.version).toBe(SESSION_CONFIG_VERSION)
+    expect(config?.settings.budget).toBe(30000)
+    expect(config?.settings.modelVersionId).toBe('default')
+    expect(config?.settings.playProbabilities).toEqual({})
+    expect(config?.modelCoefficients).toBe(DEFAULT_MODEL_COEFFICIENTS)
+    expect(config?.opponentProfile?.name).toBe('Metro Elite')
+  })
+
+  it('accepts fitted coefficients without an opponent penalty and rejects a malformed one', () => {
+    const { opponentPenalty, ...fittedWin } = DEFAULT_MODEL_COEFFICIENTS.win
+    const fitted = { ...DEFAULT_MODEL_COEFFICIENTS, id: 'fit-1', fittedAt: '2024-01-01T00:00:00Z', win: fittedWin }
+
+    expect(parseSessionConfig({ ...defaults, modelCoefficients: fitted }, defaults).config?.modelCoefficients).toEqual(fitted)
+    const malformed = { ...fitted, win: { ...fittedWin, opponentPenalty: String(opponentPenalty) } }
+    const { config, errors } = parseSessionConfig({ ...defaults, modelCoefficients: malformed }, defaults)
+    expect(config?.modelCoefficients).toBe(DEFAULT_MODEL_COEFFICIENTS)
+    expect(errors).toHaveLength(1)
+  })
+
+  it('rejects documents without a version or from before the first format', () => {
+    expect(parseSessionConfig({ ...versionTwo, version: undefined }, defaults).config).toBeNull()
+    expect(parseSessionConfig({ ...versionTwo, version: 1 }, defaults)).toEqual({
+      config: null,
+      errors: ['Session version 1 predates shared sessions (version 2) and cannot be loaded; ask for a new link.'],
+      migratedFrom: null,
+    })
+    expect(parseSessionConfig({ ...versionTwo, version: SESSION_CONFIG_VERSION + 1 }, defaults).config).toBeNull()
+  })
+
+  it('holds numeric settings to the ranges the controls allow', () => {
+    const { config, errors } = parseSessionConfig(
+      {
+        ...defaults,
+        settings: {
+          ...defaults.settings,
+          budget: -5000,
+          simulationRuns: 1e9,
+          strategyIntensity: 40,
+          simulationSeed: 12.7,
+          positionSalaryCaps: { G: -1, F: 12000 },
+        },
+      },
+      defaults,
+    )
+
+    expect(config?.settings).toMatchObject({
+      budget: 25000,
+      simulationRuns: 6000,
+      strategyIntensity: 10,
+      simulationSeed: 13,
+      positionSalaryCaps: { F: 12000 },
+    })
+    expect(errors).toHaveLength(4)
+  })
+
+  it('falls back on formations whose slot counts could not be a lineup', () => {
+    const { config, errors } = parseSessionConfig(
+      { ...defaults, formation: { ...defaults.formation, id: 'huge', builtIn: false, guards: 1e9 } },
+      defaults,
+    )
+
+    expect(config?.formation).toBe(defaults.formation)
+    expect(errors).toEqual(['formation is invalid; using the default.'])
+  })
+
+  it('rejects pair rules that name the same player twice', () => {
+    const { config, errors } = parseSessionConfig(
+      { ...defaults, settings: { ...defaults.settings, togetherPairs: [['p1', 'p1']] } },
+      defaults,
+    )
+
+    expect(config?.settings.togetherPairs).toEqual([])
+    expect(errors).toEqual(['settings.togetherPairs is invalid; using the default.'])
+  })
+
+  it('survives a round trip through the URL hash', () => {
+    const config = { ...defaults, settings: { ...defaults.settings, opponent: 'Metro Élite' } }
+
+    expect(decodeSessionHash(encodeSessionHash(config), defaults)?.config).toEqual(config)
+    expect(decodeSessionHash('#session=%%%', defaults)?.config).toBeNull()
+    expect(decodeSessionHash('#other=1', defaults)).toBeNull()
+  })
+
+  it('carries the opponent four factors through the URL hash', () => {
+    const row = {
+      name: 'Metro Elite',
+      offensiveRating: 119,
+      defensiveRating: 108,
+      pace: 99,
+      efg: 0.561,
+      turnoverRate: 0.118,
+      offensiveReboundRate: 0.274,
+      freeThrowRate: 0.232,
+    }
+    // The contender board adds ranking columns that do not belong in the session.
+    const contender = { ...row, net: 11, contenderScore: 72.4 }
+    const config = { ...defaults, opponentProfile: sessionOpponentRow(contender) }
+
+    expect(decodeSessionHash(encodeSessionHash(config), defaults)?.config?.opponentProfile).toEqual(row)
+  })
+})
+
+describe('resolveSessionPlayers', () => {
+  it('drops and reports player ids the roster does not know', () => {
+    const { settings, missingPlayerIds } = resolveSessionPlayers(
+      {
+        ...defaults.settings,
+        injuredPlayerIds: ['p2', 'x1'],
+        lockedPlayerIds: ['x2'],
+        togetherPairs: [
+          ['p1', 'p3'],
+          ['p1', 'x3'],
+        ],
+        playProbabilities: { p4: 0.5, x1: 0.25 },
+      },
+      players,
+    )
+
+    expect(settings.injuredPlayerIds).toEqual(['p2'])
+    expect(settings.lockedPlayerIds).toEqual([])
+    expect(settings.togetherPairs).toEqual([['p1', 'p3']])
+    expect(settings.playProbabilities).toEqual({ p4: 0.5 })
+    expect(missingPlayerIds).toEqual(['x1', 'x2', 'x3'])
+  })
+})
@@ -0,0 +1,352 @@
+import { readTeamFourFactors, teamFourFactorColumns } from './analytics'
+import type {
+  Formation,
+  ModelCoefficients,
+  PlanSettings,
+  Player,
+  Position,
+  SessionConfig,
+  SessionImport,
+  StrategyArchetype,
+  TeamCsvRow,
+  ViewMode,
+} from '../types'
+
+export const SESSION_CONFIG_VERSION = 4
+// The first shared format. Sessions shipped at version 2 because version 1 was the unreleased draft of
+// this document; no version 1 link or file was ever written, so there is no decoder to migrate from.
+const FIRST_SESSION_VERSION = 2
+const SESSION_HASH_KEY = 'session'
+const LINEUP_SLOTS = 5
+
+/** The ranges the Decision Room controls allow; imported settings are held to them as well. */
+export const SETTING_LIMITS = {
+  strategyIntensity: { min: 1, max: 10, step: 1 },
+  budget: { min: 25000, max: 45000, step: 500 },
+  minimumMinutes: { min: 16, max: 36, step: 1 },
+  simulationRuns: { min: 1000, max: 6000, step: 500 },
+  simulationSeed: { min: 0, max: 0xffffffff, step: 1 },
+}
+
+type LimitedSetting = keyof typeof SETTING_LIMITS
+
+type SessionDocument = Record<string, unknown>
+
+const isRecord = (value: unknown): value is SessionDocument =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value)
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((entry) => typeof entry === 'string')
+
+const isPairArray = (value: unknown): value is [string, string][] =>
+  Array.isArray(value) && value.every((pair) => isStringArray(pair) && pair.length === 2 && pair[0] !== pair[1])
+
+const viewModes: ViewMode[] = ['setup', 'strategy', 'results']
+const priorityModes: PlanSettings['priorityMode'][] = ['upside', 'balanced', 'stability']
+const simulationModes: PlanSettings['simulationMode'][] = ['margin', 'possession']
+const positions: Position[] = ['G', 'F', 'C']
+
+/**
+ * Version 2 documents nest the Decision Room inputs under `settings` (the same shape a locked plan
+ * stores) and carry the custom formation, archetypes and opponent ratings so the link works on a
+ * machine that never saw those uploads. Version 3 adds the active model coefficients; older
+ * sessions ran on the defaults. Version 4 adds per-player play probabilities; before it every
+ * player was either available or out.
+ */
+const migrations: Record<number, (document: SessionDocument) => SessionDocument> = {
+  2: (document) => ({
+    ...document,
+    version: 3,
+    settings: { ...(isRecord(document.settings) ? document.settings : {}), modelVersionId: 'default' },
+    modelCoefficients: null,
+  }),
+  3: (document) => ({
+    ...document,
+    version: 4,
+    settings: { ...(isRecord(document.settings) ? document.settings : {}), playProbabilities: {} },
+  }),
+}
+
+const readField = <T>(
+  source: SessionDocument,
+  key: string,
+  fallback: T,
+  isValid: (value: unknown) => boolean,
+  errors: string[],
+  path: string,
+): T => {
+  const value = source[key]
+  if (value === undefined) {
+    return fallback
+  }
+
+  if (!isValid(value)) {
+    errors.push(`${path}${key} is invalid; using the default.`)
+    return fallback
+  }
+
+  return value as T
+}
+
+// Rounds to the control's step and clamps to its range, reporting any change.
+const readLimitedNumber = (
+  source: SessionDocument,
+  key: LimitedSetting,
+  fallback: number,
+  errors: string[],
+  path: string,
+) => {
+  const value = readField(source, key, fallback, isFiniteNumber, errors, path)
+  const { min, max, step } = SETTING_LIMITS[key]
+  const limited = Math.min(max, Math.max(min, min + Math.round((value - min) / step) * step))
+  if (limited !== value) {
+    errors.push(`${path}${key} ${value} is outside the allowed ${min}–${max} range; using ${limited}.`)
+  }
+  return limited
+}
+
+const isSlotCount = (value: unknown) => isFiniteNumber(value) && Number.isInteger(value) && value >= 0 && value <= LINEUP_SLOTS
+
+const isProbability = (value: unknown): value is number => isFiniteNumber(value) && value >= 0 && value <= 1
+
+const isTeamRow = (value: unknown): value is TeamCsvRow =>
+  isRecord(value) &&
+  typeof value.name === 'string' &&
+  isFiniteNumber(value.offensiveRating) &&
+  isFiniteNumber(value.defensiveRating) &&
+  isFiniteNumber(value.pace) &&
+  teamFourFactorColumns.every((column) => value[column] === undefined || isProbability(value[column]))
+
+const isFormation = (value: unknown): value is Formation =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  typeof value.label === 'string' &&
+  isSlotCount(value.guards) &&
+  isSlotCount(value.forwards) &&
+  isSlotCount(value.centers) &&
+  isRecord(value.flexSlots) &&
+  Object.values(value.flexSlots).every(isSlotCount)
+
+const isArchetype = (value: unknown): value is StrategyArchetype =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  typeof value.label === 'string' &&
+  isFiniteNumber(value.pace) &&
+  isFiniteNumber(value.shooting) &&
+  isFiniteNumber(value.turnover) &&
+  isFiniteNumber(value.risk)
+
+const isCoefficientGroup = (value: unknown, keys: string[]) =>
+  isRecord(value) && keys.every((key) => isFiniteNumber(value[key]))
+
+const isModelCoefficients = (value: unknown): value is ModelCoefficients =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  typeof value.label === 'string' &&
+  isFiniteNumber(value.sampleSize) &&
+  isCoefficientGroup(value.win, ['intercept', 'netRating', 'recentForm', 'shooting', 'turnover', 'pace', 'opponentNetRating']) &&
+  (!isRecord(value.win) || value.win.opponentPenalty === undefined || isFiniteNumber(value.win.opponentPenalty)) &&
+  isCoefficientGroup(value.margin, ['offset', 'shooting', 'turnover', 'pace', 'opponentNetRating'])
+
+const readSettings = (source: unknown, defaults: PlanSettings, errors: string[]): PlanSettings => {
+  if (!isRecord(source)) {
+    errors.push('settings are missing; using the defaults.')
+    return defaults
+  }
+
+  const path = 'settings.'
+  const caps = readField(source, 'positionSalaryCaps', defaults.positionSalaryCaps, isRecord, errors, path)
+  const playProbabilities = readField(source, 'playProbabilities', defaults.playProbabilities, isRecord, errors, path)
+
+  return {
+    opponent: readField(source, 'opponent', defaults.opponent, (value) => typeof value === 'string', errors, path),
+    formationId: readField(source, 'formationId', defaults.formationId, (value) => typeof value === 'string', errors, path),
+    priorityMode: readField(
+      source,
+      'priorityMode',
+      defaults.priorityMode,
+      (value) => priorityModes.includes(value as PlanSettings['priorityMode']),
+      errors,
+      path,
+    ),
+    strategyIntensity: readLimitedNumber(source, 'strategyIntensity', defaults.strategyIntensity, errors, path),
+    budget: readLimitedNumber(source, 'budget', defaults.budget, errors, path),
+    minimumMinutes: readLimitedNumber(source, 'minimumMinutes', defaults.minimumMinutes, errors, path),
+    simulationRuns: readLimitedNumber(source, 'simulationRuns', defaults.simulationRuns, errors, path),
+    simulationSeed: readLimitedNumber(source, 'simulationSeed', defaults.simulationSeed, errors, path),
+    simulationMode: readField(
+      source,
+      'simulationMode',
+      defaults.simulationMode,
+      (value) => simulationModes.includes(value as PlanSettings['simulationMode']),
+      errors,
+      path,
+    ),
+    injuredPlayerIds: readField(source, 'injuredPlayerIds', defaults.injuredPlayerIds, isStringArray, errors, path),
+    lockedPlayerIds: readField(source, 'lockedPlayerIds', defaults.lockedPlayerIds, isStringArray, errors, path),
+    togetherPairs: readField(source, 'togetherPairs', defaults.togetherPairs, isPairArray, errors, path),
+    apartPairs: readField(source, 'apartPairs', defaults.apartPairs, isPairArray, errors, path),
+    modelVersionId: readField(
+      source,
+      'modelVersionId',
+      defaults.modelVersionId,
+      (value) => typeof value === 'string',
+      errors,
+      path,
+    ),
+    positionSalaryCaps: Object.fromEntries(
+      Object.entries(caps).filter(
+        ([position, cap]) => positions.includes(position as Position) && isFiniteNumber(cap) && cap >= 0,
+      ),
+    ),
+    playProbabilities: Object.fromEntries(
+      Object.entries(playProbabilities).filter(([, probability]) => isProbability(probability)),
+    ),
+  }
+}
+
+/**
+ * Validates an imported session document, upgrading older versions first. Invalid fields fall back
+ * to `defaults` and are reported, so a partly broken link still lands close to the shared setup.
+ */
+export const parseSessionConfig = (raw: unknown, defaults: SessionConfig): SessionImport => {
+  if (!isRecord(raw)) {
+    return { config: null, errors: ['Session file is not a JSON object.'], migratedFrom: null }
+  }
+
+  const version = raw.version
+  if (version === undefined) {
+    return {
+      config: null,
+      errors: ['Session file has no version; expected a document exported from the Decision Room.'],
+      migratedFrom: null,
+    }
+  }
+
+  if (!isFiniteNumber(version) || !Number.isInteger(version)) {
+    return { config: null, errors: ['Session version is not recognized.'], migratedFrom: null }
+  }
+
+  if (version < FIRST_SESSION_VERSION) {
+    return {
+      config: null,
+      errors: [
+        `Session version ${version} predates shared sessions (version ${FIRST_SESSION_VERSION}) and cannot be loaded; ask for a new link.`,
+      ],
+      migratedFrom: null,
+    }
+  }
+
+  if (version > SESSION_CONFIG_VERSION) {
+    return {
+      config: null,
+      errors: [`Session version ${version} is newer than this app supports (${SESSION_CONFIG_VERSION}).`],
+      migratedFrom: null,
+    }
+  }
+
+  let document = raw
+  for (let current = version; current < SESSION_CONFIG_VERSION; current += 1) {
+    document = migrations[current](document)
+  }
+
+  const errors: string[] = []
+  const formation = document.formation === null ? null : readField<Formation | null>(document, 'formation', null, isFormation, errors, '')
+  const archetypes = readField<unknown[]>(document, 'customArchetypes', [], Array.isArray, errors, '')
+
+  return {
+    config: {
+      version: SESSION_CONFIG_VERSION,
+      viewMode: readField(
+        document,
+        'viewMode',
+        defaults.viewMode,
+        (value) => viewModes.includes(value as ViewMode),
+        errors,
+        '',
+      ),
+      settings: readSettings(document.settings, defaults.settings, errors),
+      opponentProfile:
+        document.opponentProfile === null
+          ? null
+          : readField(document, 'opponentProfile', defaults.opponentProfile, isTeamRow, errors, ''),
+      formation: formation ? { ...formation, builtIn: formation.builtIn === true } : defaults.formation,
+      customArchetypes: archetypes
+        .filter(isArchetype)
+        .map((archetype) => ({ ...archetype, notes: archetype.notes ?? '', builtIn: false })),
+      modelCoefficients:
+        document.modelCoefficients === null
+          ? defaults.modelCoefficients
+          : readField(document, 'modelCoefficients', defaults.modelCoefficients, isModelCoefficients, errors, ''),
+    },
+    errors,
+    migratedFrom: version < SESSION_CONFIG_VERSION ? version : null,
+  }
+}
+
+/**
+ * Sessions carry player ids but not the roster they came from. Ids the current roster does not know are
+ * dropped from every player rule and returned, so the caller can say which constraints did not carry over.
+ */
+export const resolveSessionPlayers = (settings: PlanSettings, roster: Player[]) => {
+  const known = new Set(roster.map((player) => player.id))
+  const missing = new Set<string>()
+  const keep = (id: string) => {
+    if (!known.has(id)) {
+      missing.add(id)
+    }
+    return known.has(id)
+  }
+  const keepPairs = (pairs: [string, string][]) => pairs.filter((pair) => pair.map(keep).every(Boolean))
+
+  return {
+    settings: {
+      ...settings,
+      injuredPlayerIds: settings.injuredPlayerIds.filter(keep),
+      lockedPlayerIds: settings.lockedPlayerIds.filter(keep),
+      togetherPairs: keepPairs(settings.togetherPairs),
+      apartPairs: keepPairs(settings.apartPairs),
+      playProbabilities: Object.fromEntries(Object.entries(settings.playProbabilities).filter(([id]) => keep(id))),
+    },
+    missingPlayerIds: [...missing],
+  }
+}
+
+const encodeBase64Url = (text: string) => {
+  const binary = Array.from(new TextEncoder().encode(text), (byte) => String.fromCharCode(byte)).join('')
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+const decodeBase64Url = (encoded: string) => {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'))
+  return new TextDecoder().decode(Uint8Array.from(binary, (character) => character.charCodeAt(0)))
+}
+
+/** The scouting row a session carries for its opponent: ratings, pace and any scouted four-factor rates. */
+export const sessionOpponentRow = (team: TeamCsvRow): TeamCsvRow => ({
+  name: team.name,
+  offensiveRating: team.offensiveRating,
+  defensiveRating: team.defensiveRating,
+  pace: team.pace,
+  ...readTeamFourFactors(team),
+})
+
+export const serializeSessionConfig = (config: SessionConfig) => JSON.stringify(config, null, 2)
+
+export const encodeSessionHash = (config: SessionConfig) => `#${SESSION_HASH_KEY}=${encodeBase64Url(JSON.stringify(config))}`
+
+/** Returns null when the hash carries no session, and an import with errors when it does but cannot be read. */
+export const decodeSessionHash = (hash: string, defaults: SessionConfig): SessionImport | null => {
+  const encoded = new URLSearchParams(hash.replace(/^#/, '')).get(SESSION_HASH_KEY)
+  if (!encoded) {
+    return null
+  }
+
+  try {
+    return parseSessionConfig(JSON.parse(decodeBase64Url(encoded)), defaults)
+  } catch {
+    return { config: null, errors: ['The session link is damaged and could not be decoded.'], migratedFrom: null }
+  }
+}
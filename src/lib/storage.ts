@@ -0,0 +1,26 @@
+const STORAGE_PREFIX = 'hackalytics:'
+
+export const loadStoredValue = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_PREFIX + key)
+    return raw === null ? fallback : (JSON.parse(raw) as T)
+  } catch {
+    return fallback
+  }
+}
+
+export const saveStoredValue = <T>(key: string, value: T) => {
+  try {
+    window.localStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(value))
+  } catch {
+    // Storage can be full or disabled (private browsing); the session keeps working in memory.
+  }
+}
+
+export const clearStoredValue = (key: string) => {
+  try {
+    window.localStorage.removeItem(STORAGE_PREFIX + key)
+  } catch {
+    // Ignore storage failures, see saveStoredValue.
+  }
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest'
+import { evaluateStrategyCandidate, paretoFrontier, rankTournamentLineups, scaleArchetypeScenario } from './tournament'
+import { createTournamentInput, testArchetypes } from '../test/fixtures'
+
+const plan = (id: string, winProbability: number, riskIndex: number) => ({ id, winProbability, riskIndex })
+
+describe('paretoFrontier', () => {
+  it('keeps the plans no other plan beats on both axes, safest first', () => {
+    const plans = [
+      plan('safe', 52, 20),
+      plan('bold', 70, 60),
+      plan('dominated', 50, 40),
+      plan('middle', 61, 35),
+      plan('worse-middle', 61, 38),
+    ]
+
+    expect(paretoFrontier(plans).map((candidate) => candidate.id)).toEqual(['safe', 'middle', 'bold'])
+  })
+
+  it('keeps every plan tied on both axes', () => {
+    const plans = [plan('first', 60, 30), plan('second', 60, 30), plan('behind', 55, 30)]
+    expect(paretoFrontier(plans).map((candidate) => candidate.id)).toEqual(['first', 'second'])
+  })
+})
+
+describe('strategy archetypes', () => {
+  const [aggressive] = testArchetypes
+
+  it('scale their scenario deltas with strategy intensity', () => {
+    expect(scaleArchetypeScenario(aggressive, 6)).toEqual({ paceDelta: 6, shootingDelta: 4, turnoverDelta: 3 })
+    expect(scaleArchetypeScenario(aggressive, 3)).toEqual({ paceDelta: 3, shootingDelta: 2, turnoverDelta: 2 })
+    expect(scaleArchetypeScenario(aggressive, 0)).toEqual({ paceDelta: 0, shootingDelta: 0, turnoverDelta: 0 })
+  })
+
+  it('score a custom archetype with its own risk baseline', () => {
+    const input = createTournamentInput()
+    const { best: lineup, availability } = rankTournamentLineups(input)
+    const custom = { ...aggressive, id: 'custom-cautious', label: 'Cautious Run', risk: 0.3, builtIn: false }
+
+    const original = evaluateStrategyCandidate(input, aggressive, lineup, availability, 400)
+    const cautious = evaluateStrategyCandidate(input, custom, lineup, availability, 400)
+
+    expect(cautious).toMatchObject({ id: 'custom-cautious', label: 'Cautious Run', scenario: original.scenario })
+    expect(cautious.riskIndex).toBeLessThan(original.riskIndex)
+    expect(cautious.score).toBeGreaterThan(original.score)
+  })
+})
@@ -0,0 +1,211 @@
+import {
+  MARGIN_STANDARD_DEVIATION,
+  evaluateLineupChemistry,
+  explainLineupInfeasibility,
+  projectGameTempo,
+  projectMatchupWinProbability,
+  rankLineups,
+  runMonteCarloSimulation,
+  simulatePossessionGames,
+} from './analytics'
+import { buildAvailabilityModel } from './availability'
+import { buildMatchupReport, matchupMarginEdge } from './matchups'
+import type {
+  AvailabilityModel,
+  GameSample,
+  LineupConstraints,
+  LineupResult,
+  ModelCoefficients,
+  Player,
+  ScenarioInputs,
+  ScoreWeights,
+  SimulationMode,
+  StrategyArchetype,
+  StrategyCandidate,
+  TeamCsvRow,
+  TeamProfile,
+} from '../types'
+
+export const PRELIMINARY_RUNS = 400
+// Search evaluations the optimizer may spend before its winner is re-scored at full depth.
+export const OPTIMIZER_MAX_EVALUATIONS = 60
+export const LINEUP_ALTERNATIVES = 5
+// Win-probability points per point of expected margin near a coin flip: the normal density at zero
+// over the margin spread.
+const WIN_PERCENT_PER_MARGIN = (100 * 0.3989) / MARGIN_STANDARD_DEVIATION
+
+export type TournamentInput = {
+  team: TeamProfile
+  roster: Player[]
+  games: GameSample[]
+  budget: number
+  constraints: LineupConstraints
+  playProbabilities: Record<string, number>
+  opponent: TeamCsvRow | null
+  opponentNetRating: number
+  opponentRoster: Player[]
+  archetypes: StrategyArchetype[]
+  strategyIntensity: number
+  simulationMode: SimulationMode
+  simulationRuns: number
+  simulationSeed: number
+  weights: ScoreWeights
+  coefficients: ModelCoefficients
+}
+
+export type TournamentRequest = {
+  type: 'run'
+  runId: number
+  input: TournamentInput
+}
+
+export type TournamentResponse =
+  | {
+      type: 'candidate'
+      runId: number
+      candidate: StrategyCandidate
+      preliminary: boolean
+      completed: number
+      total: number
+    }
+  | { type: 'lineups'; runId: number; lineups: LineupResult[] }
+  | { type: 'progress'; runId: number; completed: number; total: number }
+  // The optimizer's other search trials; those on the frontier are re-scored at full depth.
+  | { type: 'explored'; runId: number; trials: Array<StrategyCandidate & { preliminary: boolean }> }
+  | { type: 'done'; runId: number }
+  | { type: 'error'; runId: number; message: string }
+
+// Both archetype passes, every optimizer search evaluation it may spend, then the winner's full run.
+export const tournamentStepCount = (archetypeCount: number) => archetypeCount * 2 + OPTIMIZER_MAX_EVALUATIONS + 1
+
+export const scaleArchetypeScenario = (archetype: StrategyArchetype, strategyIntensity: number) => {
+  const scale = strategyIntensity / 6
+  return {
+    paceDelta: Math.round(archetype.pace * scale),
+    shootingDelta: Math.round(archetype.shooting * scale),
+    turnoverDelta: Math.round(archetype.turnover * scale),
+  }
+}
+
+/**
+ * Scores any scenario with the tournament's composite; `profile.risk` is the plan's risk baseline.
+ * `availability` must belong to `lineup`; build it once per lineup with `buildAvailabilityModel`.
+ */
+export const evaluateScenarioCandidate = (
+  input: TournamentInput,
+  profile: Pick<StrategyArchetype, 'id' | 'label' | 'risk'>,
+  scenario: ScenarioInputs,
+  lineup: LineupResult,
+  availability: AvailabilityModel | undefined,
+  iterations: number,
+): StrategyCandidate => {
+  const { team, opponentNetRating, weights, coefficients } = input
+
+  const chemistry = evaluateLineupChemistry(lineup.lineup)
+  const matchupEdge = matchupMarginEdge(buildMatchupReport(lineup.lineup, input.opponentRoster), scenario)
+  const opponentPace = input.opponent?.pace
+  const winProbability = projectMatchupWinProbability(team, scenario, opponentNetRating, coefficients, opponentPace)
+  const possessionSim =
+    input.simulationMode === 'possession'
+      ? simulatePossessionGames(team, input.games, scenario, input.opponent, iterations, input.simulationSeed, availability)
+      : null
+  const monte = possessionSim ?? runMonteCarloSimulation(
+      team,
+      scenario,
+      opponentNetRating,
+      iterations,
+      input.simulationSeed,
+      coefficients,
+      opponentPace,
+      availability,
+    )
+  const riskIndex = Math.max(
+    1,
+    Math.min(100, profile.risk * 100 + Math.abs(scenario.turnoverDelta) * 4 + (100 - chemistry.overall) * 0.12),
+  )
+
+  const feasibilityPenalty = lineup.feasibility === 'optimal' ? 0 : 30
+  const score =
+    weights.win * winProbability +
+    weights.monte * monte.winRate +
+    weights.chemistry * chemistry.overall +
+    weights.win * matchupEdge * WIN_PERCENT_PER_MARGIN -
+    weights.riskPenalty * riskIndex -
+    feasibilityPenalty
+
+  return {
+    id: profile.id,
+    label: profile.label,
+    scenario,
+    lineup,
+    chemistry,
+    winProbability: Number(winProbability.toFixed(1)),
+    monteWinRate: monte.winRate,
+    expectedMargin: monte.averageMargin,
+    expectedTempo: Number(projectGameTempo(team, scenario, opponentPace).toFixed(1)),
+    matchupEdge: Number(matchupEdge.toFixed(1)),
+    riskIndex: Number(riskIndex.toFixed(1)),
+    score: Number(score.toFixed(2)),
+    distribution: monte.distribution,
+    availabilityImpact: monte.availabilityImpact,
+    seed: monte.seed,
+    boxScore: possessionSim?.boxScore ?? null,
+  }
+}
+
+export const evaluateStrategyCandidate = (
+  input: TournamentInput,
+  archetype: StrategyArchetype,
+  lineup: LineupResult,
+  availability: AvailabilityModel | undefined,
+  iterations: number,
+) =>
+  evaluateScenarioCandidate(
+    input,
+    archetype,
+    scaleArchetypeScenario(archetype, input.strategyIntensity),
+    lineup,
+    availability,
+    iterations,
+  )
+
+const infeasibleLineup: LineupResult = {
+  lineup: [],
+  totalSalary: 0,
+  projectedPoints: 0,
+  projectedDefenseImpact: 0,
+  objective: 0,
+  feasibility: 'infeasible',
+  conflicts: [],
+}
+
+/**
+ * The lineups a tournament run plays, plus the availability model of the best one. The model caches
+ * its contingency searches, so one run shares it across every candidate it scores.
+ */
+export const rankTournamentLineups = (input: TournamentInput) => {
+  const lineups = rankLineups(input.roster, input.budget, input.constraints, LINEUP_ALTERNATIVES)
+  const best = lineups[0] ?? {
+    ...infeasibleLineup,
+    conflicts: explainLineupInfeasibility(input.roster, input.budget, input.constraints),
+  }
+  const availability = buildAvailabilityModel(input.roster, input.budget, input.constraints, best, input.playProbabilities)
+  return { best, lineups, availability }
+}
+
+/**
+ * Candidates no other candidate beats on both win probability and risk, ordered from safest to most
+ * likely to win. Ties on both axes keep every tied plan on the frontier.
+ */
+export const paretoFrontier = <T extends Pick<StrategyCandidate, 'winProbability' | 'riskIndex'>>(candidates: T[]) =>
+  candidates
+    .filter(
+      (candidate) =>
+        !candidates.some(
+          (other) =>
+            other.winProbability >= candidate.winProbability &&
+            other.riskIndex <= candidate.riskIndex &&
+            (other.winProbability > candidate.winProbability || other.riskIndex < candidate.riskIndex),
+        ),
+    )
+    .sort((left, right) => left.riskIndex - right.riskIndex || left.winProbability - right.winProbability)
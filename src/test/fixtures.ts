@@ -0,0 +1,87 @@
+import { createSeededRandom, DEFAULT_MODEL_COEFFICIENTS } from '../lib/analytics'
+import type { TournamentInput } from '../lib/tournament'
+import { gameLog, players, teamProfile } from '../data/mockData'
+import type { GameSample, LineupConstraints, Player, StrategyArchetype } from '../types'
+
+export const balancedConstraints: LineupConstraints = {
+  guards: 2,
+  forwards: 2,
+  centers: 1,
+  flexSlots: {},
+  minMinutes: 0,
+  excludedPlayerIds: [],
+  lockedPlayerIds: [],
+  togetherPairs: [],
+  apartPairs: [],
+  positionSalaryCaps: {},
+}
+
+export const testArchetypes: StrategyArchetype[] = [
+  { id: 'aggressive', label: 'Aggressive Tempo', pace: 6, shooting: 4, turnover: 3, risk: 0.72, notes: '', builtIn: true },
+  { id: 'defensive', label: 'Defensive Grind', pace: -3, shooting: 1, turnover: -2, risk: 0.31, notes: '', builtIn: true },
+]
+
+export const createTournamentInput = (overrides: Partial<TournamentInput> = {}): TournamentInput => ({
+  team: teamProfile,
+  roster: players,
+  games: gameLog,
+  budget: 40000,
+  constraints: balancedConstraints,
+  playProbabilities: {},
+  opponent: null,
+  opponentNetRating: 0,
+  opponentRoster: [],
+  archetypes: testArchetypes,
+  strategyIntensity: 6,
+  simulationMode: 'margin',
+  simulationRuns: 400,
+  simulationSeed: 7,
+  weights: { win: 0.45, monte: 0.25, chemistry: 0.18, riskPenalty: 0.11 },
+  coefficients: DEFAULT_MODEL_COEFFICIENTS,
+  ...overrides,
+})
+
+/** A deterministic pool of `count` players cycling G, F, C with varied salaries and production. */
+export const createPlayerPool = (count: number, seed = 1): Player[] => {
+  const next = createSeededRandom(seed)
+  const positions = ['G', 'F', 'C'] as const
+  return Array.from({ length: count }, (_, index) => ({
+    id: `p${index + 1}`,
+    name: `Player ${index + 1}`,
+    position: positions[index % 3],
+    team: 'TST',
+    salary: Math.round(3000 + next() * 7000),
+    minutes: Math.round(12 + next() * 24),
+    points: Number((4 + next() * 24).toFixed(1)),
+    assists: Number((next() * 9).toFixed(1)),
+    rebounds: Number((1 + next() * 11).toFixed(1)),
+    steals: Number((next() * 2).toFixed(1)),
+    blocks: Number((next() * 2).toFixed(1)),
+    turnovers: Number((0.5 + next() * 3).toFixed(1)),
+    fgPct: Number((0.4 + next() * 0.2).toFixed(2)),
+    threePct: Number((0.25 + next() * 0.17).toFixed(2)),
+    usage: Number((12 + next() * 20).toFixed(1)),
+  }))
+}
+
+/** A deterministic game log whose margins follow eFG%, turnovers and a little noise. */
+export const createGameLog = (count: number, seed = 1): GameSample[] => {
+  const next = createSeededRandom(seed)
+  return Array.from({ length: count }, (_, index) => {
+    const efg = 0.5 + next() * 0.1
+    const turnovers = 9 + next() * 8
+    const pace = 96 + next() * 8
+    const margin = Math.round((efg - 0.55) * 200 - (turnovers - 13) * 1.2 + (next() - 0.5) * 16) || 1
+    const pointsAgainst = Math.round(108 + next() * 10)
+    return {
+      game: `G${index + 1}`,
+      opponent: ['Phoenix', 'Dallas', 'Boston', 'Miami'][index % 4],
+      pointsFor: pointsAgainst + margin,
+      pointsAgainst,
+      pace: Number(pace.toFixed(1)),
+      efg: Number(efg.toFixed(3)),
+      turnovers: Math.round(turnovers),
+      rebounding: Math.round(42 + next() * 12),
+    }
+  })
+}
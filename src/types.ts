@@ -1,7 +1,10 @@
+export type Position = 'G' | 'F' | 'C'
+
 export type Player = {
   id: string
   name: string
-  position: 'G' | 'F' | 'C'
+  position: Position
+  eligiblePositions?: Position[]
   team: string
   salary: number
   minutes: number
@@ -25,6 +28,8 @@ export type GameSample = {
   efg: number
   turnovers: number
   rebounding: number
+  // Free throws made per field goal attempt; older logs do not carry it.
+  freeThrowRate?: number
 }
 
 export type TeamProfile = {
@@ -52,14 +57,46 @@ export type TeamCsvRow = {
   offensiveRating: number
   defensiveRating: number
   pace: number
+} & Partial<Record<FourFactor, number>>
+
+export type CsvRowError = {
+  row: number
+  message: string
+}
+
+export type RosterImport = {
+  players: Player[]
+  errors: CsvRowError[]
+}
+
+export type GameLogImport = {
+  games: GameSample[]
+  errors: CsvRowError[]
+}
+
+export type FlexSlot = 'G/F' | 'F/C' | 'UTIL'
+
+export type Formation = {
+  id: string
+  label: string
+  guards: number
+  forwards: number
+  centers: number
+  flexSlots: Partial<Record<FlexSlot, number>>
+  builtIn: boolean
 }
 
 export type LineupConstraints = {
   guards: number
   forwards: number
   centers: number
+  flexSlots: Partial<Record<FlexSlot, number>>
   minMinutes: number
   excludedPlayerIds: string[]
+  lockedPlayerIds: string[]
+  togetherPairs: [string, string][]
+  apartPairs: [string, string][]
+  positionSalaryCaps: Partial<Record<Position, number>>
 }
 
 export type LineupResult = {
@@ -67,7 +104,9 @@ export type LineupResult = {
   totalSalary: number
   projectedPoints: number
   projectedDefenseImpact: number
+  objective: number
   feasibility: 'optimal' | 'infeasible'
+  conflicts: string[]
 }
 
 export type SimulationBin = {
@@ -75,25 +114,150 @@ export type SimulationBin = {
   frequency: number
 }
 
+export type AvailabilityStatus = 'available' | 'probable' | 'questionable' | 'doubtful' | 'out'
+
+export type UncertainPlayer = {
+  id: string
+  name: string
+  playProbability: number
+}
+
+/** Uncertain players plus the margin cost of the contingency lineup for any set of absentees. */
+export type AvailabilityModel = {
+  players: UncertainPlayer[]
+  marginShift: (absentIds: string[]) => number
+}
+
+export type AvailabilityImpact = {
+  playerId: string
+  name: string
+  playProbability: number
+  winIfPlays: number
+  winIfSits: number
+  swing: number
+}
+
 export type MonteCarloSummary = {
   winRate: number
   averageMargin: number
   floorMargin: number
   ceilingMargin: number
   distribution: SimulationBin[]
+  seed: number
+  availabilityImpact: AvailabilityImpact[]
+}
+
+export type BoxScoreTotals = {
+  possessions: number
+  points: number
+  fieldGoalsMade: number
+  fieldGoalAttempts: number
+  threesMade: number
+  freeThrowsMade: number
+  turnovers: number
+  offensiveRebounds: number
+  effectiveFgPct: number
+}
+
+export type PossessionProfile = {
+  efg: number
+  turnoverRate: number
+  offensiveReboundRate: number
+}
+
+export type PossessionSimulationSummary = MonteCarloSummary & {
+  boxScore: {
+    team: BoxScoreTotals
+    opponent: BoxScoreTotals
+  }
 }
 
 export type Recommendation = {
   title: string
   detail: string
   impact: number
+  // Name of the rule that produced the action.
+  rule: string
+}
+
+export type RuleMetric =
+  | 'paceDelta'
+  | 'shootingDelta'
+  | 'turnoverDelta'
+  | 'teamNetRating'
+  | 'teamPace'
+  | 'opponentNetRating'
+  | 'netRatingGap'
+  | 'lineupChemistry'
+  | 'lineupPoints'
+  | 'lineupDefense'
+  | 'matchupSizeEdge'
+  | 'matchupSpeedEdge'
+  | 'mismatchEdge'
+
+export type RuleComparator = '>' | '>=' | '<' | '<='
+
+export type RuleCondition = {
+  metric: RuleMetric
+  comparator: RuleComparator
+  value: number
+}
+
+// `game` rules fire once per plan, `mismatch` rules once per flagged matchup, and `fallback`
+// rules only when nothing else fired.
+export type RuleScope = 'game' | 'mismatch' | 'fallback'
+
+export type RecommendationRule = {
+  id: string
+  name: string
+  scope: RuleScope
+  mismatchKind: MatchupMismatch['kind'] | 'any'
+  mismatchFavors: MatchupMismatch['favors'] | 'any'
+  conditions: RuleCondition[]
+  title: string
+  detail: string
+  // Impact is `base + scale × |metric|`; a null metric makes it a constant.
+  impact: { metric: RuleMetric | null; scale: number; base: number }
+  enabled: boolean
+  builtIn: boolean
 }
 
+export type RuleContext = Record<Exclude<RuleMetric, 'mismatchEdge'>, number>
+
 export type SensitivityImpact = {
   factor: string
   deltaWinProbability: number
 }
 
+export type ScenarioFactor = keyof ScenarioInputs
+
+export type TornadoBar = {
+  factor: ScenarioFactor
+  label: string
+  low: number
+  high: number
+  lowWinProbability: number
+  highWinProbability: number
+  swing: number
+  breakEven: number | null
+}
+
+export type SensitivityCell = {
+  x: number
+  y: number
+  winProbability: number
+  breakEven: boolean
+}
+
+export type SensitivityGrid = {
+  xFactor: ScenarioFactor
+  yFactor: ScenarioFactor
+  xValues: number[]
+  yValues: number[]
+  rows: SensitivityCell[][]
+  baseline: number
+}
+
 export type LineupChemistry = {
   ballMovement: number
   spacing: number
@@ -101,9 +265,348 @@ export type LineupChemistry = {
   overall: number
 }
 
+export type FourFactor = 'efg' | 'turnoverRate' | 'offensiveReboundRate' | 'freeThrowRate'
+
+// Where an opponent rate came from: a scouted column, their ratings, or a league-average stand-in.
+export type FourFactorSource = 'scouted' | 'ratings' | 'league'
+
+export type FourFactorRow = {
+  factor: FourFactor
+  // Our raw rates; null for free-throw rate when the game log does not carry it.
+  season: number | null
+  rolling: number | null
+  // Our rate in this matchup, after the opponent's defense.
+  matchup: number | null
+  opponent: number
+  opponentSource: FourFactorSource
+  // Signed so that a positive edge favors us (fewer turnovers is a positive turnover edge).
+  edge: number | null
+  pointsPer100: number | null
+  scenarioFactor: ScenarioFactor
+  scenarioDelta: number | null
+}
+
+export type FourFactorsReport = {
+  opponent: string
+  games: number
+  rollingGames: number
+  rows: FourFactorRow[]
+  netPointsPer100: number
+}
+
+export type AnomalyFactor = 'pace' | 'efg' | 'turnovers' | 'rebounding' | 'margin'
+
+export type AnomalyDriver = {
+  factor: AnomalyFactor
+  value: number
+  expected: number
+  // Robust z-score: distance from the expected value in MAD-based standard deviations.
+  deviation: number
+  explanation: string
+}
+
 export type GameAnomaly = {
   game: string
   opponent: string
   anomalyScore: number
   label: string
+  // False when the opponent has no scouting ratings and the baseline is used as is.
+  opponentAdjusted: boolean
+  drivers: AnomalyDriver[]
+}
+
+export type MatchupPlayer = Pick<Player, 'id' | 'name' | 'position'>
+
+export type MatchupPair = {
+  position: Position
+  ours: MatchupPlayer
+  theirs: MatchupPlayer
+  sizeEdge: number
+  speedEdge: number
+}
+
+export type MatchupMismatch = {
+  kind: 'size' | 'speed'
+  favors: 'us' | 'them'
+  position: Position
+  ourPlayer: string
+  theirPlayer: string
+  edge: number
+  detail: string
+}
+
+export type MatchupReport = {
+  pairs: MatchupPair[]
+  mismatches: MatchupMismatch[]
+  sizeEdge: number
+  speedEdge: number
+}
+
+export type WinModelCoefficients = {
+  intercept: number
+  netRating: number
+  recentForm: number
+  shooting: number
+  turnover: number
+  pace: number
+  opponentNetRating: number
+  /** Percentage points taken off the final win % per opponent net rating point. Only the hand-tuned model has one. */
+  opponentPenalty?: number
+}
+
+export type MarginModelCoefficients = {
+  offset: number
+  shooting: number
+  turnover: number
+  pace: number
+  opponentNetRating: number
+}
+
+export type ModelCoefficients = {
+  id: string
+  label: string
+  fittedAt: string | null
+  sampleSize: number
+  win: WinModelCoefficients
+  margin: MarginModelCoefficients
+}
+
+export type ModelFitResult = {
+  coefficients: ModelCoefficients | null
+  message: string
+}
+
+export type BacktestGame = {
+  game: string
+  opponent: string
+  opponentNetRating: number
+  projectedWinProbability: number
+  monteWinRate: number
+  projectedMargin: number
+  actualMargin: number
+  won: boolean
+}
+
+export type BacktestModelScore = {
+  model: string
+  brierScore: number
+  logLoss: number
+  accuracy: number
+}
+
+export type CalibrationBucket = {
+  bucket: string
+  midpoint: number
+  projected: number | null
+  projectedGames: number
+  monte: number | null
+  monteGames: number
+}
+
+export type BacktestReport = {
+  games: BacktestGame[]
+  models: BacktestModelScore[]
+  marginMeanAbsoluteError: number
+  calibration: CalibrationBucket[]
+  scoutedGames: number
+  /** Early games with too little history to refit a fitted model on; they are not scored. */
+  skippedGames: number
+  refit: boolean
+}
+
+export type StrategyArchetype = {
+  id: string
+  label: string
+  pace: number
+  shooting: number
+  turnover: number
+  risk: number
+  notes: string
+  builtIn: boolean
+}
+
+export type SimulationMode = 'margin' | 'possession'
+
+export type ScoreWeights = {
+  win: number
+  monte: number
+  chemistry: number
+  riskPenalty: number
+}
+
+export type StrategyCandidate = {
+  id: string
+  label: string
+  scenario: ScenarioInputs
+  lineup: LineupResult
+  chemistry: LineupChemistry
+  winProbability: number
+  monteWinRate: number
+  expectedMargin: number
+  expectedTempo: number
+  matchupEdge: number
+  riskIndex: number
+  score: number
+  distribution: SimulationBin[]
+  availabilityImpact: AvailabilityImpact[]
+  seed: number
+  boxScore: PossessionSimulationSummary['boxScore'] | null
+}
+
+export type SeriesGamePlan = {
+  game: number
+  home: boolean
+  planId: string
+  label: string
+  lineup: { id: string; name: string; position: Position }[]
+  winProbability: number
+  expectedMargin: number
+  averageFatigue: number
+  reachProbability: number
+}
+
+export type RotationSegment = {
+  quarter: number
+  start: number
+  end: number
+  playerIds: string[]
+  efficiency: number
+  netRating: number
+}
+
+export type RotationStint = {
+  start: number
+  end: number
+}
+
+export type RotationPlayer = {
+  id: string
+  name: string
+  position: Position
+  targetMinutes: number
+  plannedMinutes: number
+  stints: RotationStint[]
+  averageEfficiency: number
+}
+
+export type RotationGroup = {
+  playerIds: string[]
+  names: string[]
+  minutes: number
+  netRating: number
+}
+
+export type RotationPlan = {
+  segments: RotationSegment[]
+  players: RotationPlayer[]
+  groups: RotationGroup[]
+  averageEfficiency: number
+  conflicts: string[]
+}
+
+export type SeriesLengthBin = {
+  games: number
+  wins: number
+  losses: number
+}
+
+export type SeriesSummary = {
+  seriesWinProbability: number
+  expectedGames: number
+  lengthDistribution: SeriesLengthBin[]
+  games: SeriesGamePlan[]
+  seed: number
+  conflicts: string[]
+}
+
+export type PriorityMode = 'upside' | 'balanced' | 'stability'
+
+export type PlanSettings = {
+  opponent: string
+  formationId: string
+  priorityMode: PriorityMode
+  strategyIntensity: number
+  budget: number
+  minimumMinutes: number
+  simulationRuns: number
+  simulationSeed: number
+  simulationMode: SimulationMode
+  injuredPlayerIds: string[]
+  playProbabilities: Record<string, number>
+  lockedPlayerIds: string[]
+  togetherPairs: [string, string][]
+  apartPairs: [string, string][]
+  positionSalaryCaps: Partial<Record<Position, number>>
+  modelVersionId: string
+}
+
+export type ViewMode = 'setup' | 'strategy' | 'results'
+
+export type SessionConfig = {
+  version: number
+  viewMode: ViewMode
+  settings: PlanSettings
+  opponentProfile: TeamCsvRow | null
+  formation: Formation
+  customArchetypes: StrategyArchetype[]
+  modelCoefficients: ModelCoefficients
+}
+
+export type SessionImport = {
+  config: SessionConfig | null
+  errors: string[]
+  migratedFrom: number | null
+}
+
+export type PlanSnapshot = {
+  snapshotId: string
+  id: string
+  label: string
+  opponent: string
+  opponentNetRating: number
+  score: number
+  winProbability: number
+  monteWinRate: number
+  expectedMargin: number
+  riskIndex: number
+  paceDelta: number
+  shootingDelta: number
+  turnoverDelta: number
+  seed: number
+  lineup: { id: string; name: string; position: string; salary: number }[]
+  totalSalary: number
+  distribution: SimulationBin[]
+  sensitivity: SensitivityImpact[]
+  // Scenario units each sensitivity factor was nudged by.
+  sensitivityStep: number
+  availabilityImpact: AvailabilityImpact[]
+  recommendations: Recommendation[]
+  settings: PlanSettings
+  lockedAt: string
+}
+
+export type PlanExportFormat = 'markdown' | 'json' | 'html'
+
+export type PlanExport = {
+  filename: string
+  mimeType: string
+  content: string
+}
+
+export type PlanMetricDelta = {
+  label: string
+  left: number
+  right: number
+  delta: number
+}
+
+export type PlanComparison = {
+  metrics: PlanMetricDelta[]
+  lineupAdded: PlanSnapshot['lineup']
+  lineupRemoved: PlanSnapshot['lineup']
+  lineupShared: PlanSnapshot['lineup']
+  recommendationsOnlyLeft: Recommendation[]
+  recommendationsOnlyRight: Recommendation[]
+  recommendationsShared: { title: string; leftImpact: number; rightImpact: number }[]
+  settingChanges: { label: string; left: string; right: string }[]
 }
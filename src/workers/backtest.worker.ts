@@ -0,0 +1,16 @@
+import { backtestWinModel, type BacktestRequest, type BacktestResponse } from '../lib/backtest'
+
+const post = (message: BacktestResponse) => self.postMessage(message)
+
+self.onmessage = (event: MessageEvent<BacktestRequest>) => {
+  const { runId, input } = event.data
+  try {
+    post({
+      type: 'result',
+      runId,
+      report: backtestWinModel(input.team, input.games, input.opponents, input.iterations, input.seed, input.coefficients),
+    })
+  } catch (error) {
+    post({ type: 'error', runId, message: error instanceof Error ? error.message : String(error) })
+  }
+}
@@ -0,0 +1,12 @@
+import { planRotation, type RotationRequest, type RotationResponse } from '../lib/rotation'
+
+const post = (message: RotationResponse) => self.postMessage(message)
+
+self.onmessage = (event: MessageEvent<RotationRequest>) => {
+  const { runId, input } = event.data
+  try {
+    post({ type: 'result', runId, plan: planRotation(input.team, input.roster, input.constraints, input.starterIds) })
+  } catch (error) {
+    post({ type: 'error', runId, message: error instanceof Error ? error.message : String(error) })
+  }
+}
@@ -0,0 +1,12 @@
+import { simulateSeries, type SeriesRequest, type SeriesResponse } from '../lib/series'
+
+const post = (message: SeriesResponse) => self.postMessage(message)
+
+self.onmessage = (event: MessageEvent<SeriesRequest>) => {
+  const { runId, input } = event.data
+  try {
+    post({ type: 'result', runId, summary: simulateSeries(input) })
+  } catch (error) {
+    post({ type: 'error', runId, message: error instanceof Error ? error.message : String(error) })
+  }
+}
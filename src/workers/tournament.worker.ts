@@ -0,0 +1,105 @@
+import { rescoreSearchTrial, searchStrategy, type OptimizedStrategy } from '../lib/optimizer'
+import {
+  PRELIMINARY_RUNS,
+  evaluateStrategyCandidate,
+  paretoFrontier,
+  rankTournamentLineups,
+  tournamentStepCount,
+  type TournamentRequest,
+  type TournamentResponse,
+} from '../lib/tournament'
+import type { StrategyCandidate } from '../types'
+
+let latestRunId = 0
+
+const post = (message: TournamentResponse) => self.postMessage(message)
+
+// Yield to the event loop so a newer request can arrive and supersede the current run.
+const yieldToQueue = () => new Promise((resolve) => setTimeout(resolve, 0))
+
+const runTournament = async ({ runId, input }: TournamentRequest) => {
+  const { best: lineup, lineups, availability } = rankTournamentLineups(input)
+  post({ type: 'lineups', runId, lineups })
+  const total = tournamentStepCount(input.archetypes.length)
+  let completed = 0
+  let leader: StrategyCandidate | null = null
+  const finals: StrategyCandidate[] = []
+
+  const passes = [
+    { iterations: Math.min(PRELIMINARY_RUNS, input.simulationRuns), preliminary: true },
+    { iterations: input.simulationRuns, preliminary: false },
+  ]
+
+  for (const pass of passes) {
+    for (const archetype of input.archetypes) {
+      await yieldToQueue()
+      if (runId !== latestRunId) {
+        return
+      }
+
+      const candidate = evaluateStrategyCandidate(input, archetype, lineup, availability, pass.iterations)
+      completed += 1
+      if (!pass.preliminary) {
+        finals.push(candidate)
+        if (!leader || candidate.score > leader.score) {
+          leader = candidate
+        }
+      }
+      post({ type: 'candidate', runId, candidate, preliminary: pass.preliminary, completed, total })
+    }
+  }
+
+  // The search starts from the best archetype so it refines the plan the staff already rates highest.
+  const search = searchStrategy(
+    input,
+    lineup,
+    availability,
+    leader?.scenario ?? { paceDelta: 0, shootingDelta: 0, turnoverDelta: 0 },
+    Math.min(PRELIMINARY_RUNS, input.simulationRuns),
+    input.simulationRuns,
+  )
+  const searchStart = completed
+  let step: IteratorResult<number, OptimizedStrategy>
+  do {
+    await yieldToQueue()
+    if (runId !== latestRunId) {
+      return
+    }
+    step = search.next()
+    if (!step.done) {
+      completed = searchStart + step.value
+      post({ type: 'progress', runId, completed, total })
+    }
+  } while (!step.done)
+
+  // A search that converges early skips the rest of its evaluation budget.
+  const { candidate, explored } = step.value
+  completed = total
+  post({ type: 'candidate', runId, candidate, preliminary: false, completed, total })
+
+  // Trials that reach the frontier can become the active plan, so they get the full simulation too.
+  const onFrontier = new Set(paretoFrontier([...finals, candidate, ...explored]).map((plan) => plan.id))
+  const trials = []
+  for (const trial of explored) {
+    if (!onFrontier.has(trial.id)) {
+      trials.push({ ...trial, preliminary: true })
+      continue
+    }
+
+    await yieldToQueue()
+    if (runId !== latestRunId) {
+      return
+    }
+    trials.push({ ...rescoreSearchTrial(input, trial, lineup, availability, input.simulationRuns), preliminary: false })
+  }
+  post({ type: 'explored', runId, trials })
+
+  post({ type: 'done', runId })
+}
+
+self.onmessage = (event: MessageEvent<TournamentRequest>) => {
+  latestRunId = event.data.runId
+  runTournament(event.data).catch((error: unknown) => {
+    post({ type: 'error', runId: event.data.runId, message: error instanceof Error ? error.message : String(error) })
+  })
+}